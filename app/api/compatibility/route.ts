@@ -0,0 +1,98 @@
+// app/api/compatibility/route.ts
+// Runs the compatibility engine, or the whole-build validator when parts are sent with positions,
+// with the stored CompatibilityRule records for the selected parts. Alternatives are suggested
+// from the component catalog, loaded here rather than sent by the client.
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { CATALOG_INCLUDE, ComponentCatalog } from '@/lib/component-catalog'
+import { BuildValidator, CompatibilityEngine } from '@/lib/compatibility'
+import { BuildPart, CompatibilityRecord } from '@/types/compatibility'
+import { Component } from '@/types/gear-calculator'
+
+// Most candidates loaded as fixes for one check
+const MAX_CANDIDATES = 200;
+
+interface CompatibilityRequest {
+  components?: Component[];
+  parts?: BuildPart[]; // validate as a whole bike instead
+  clearanceMargin?: number;
+}
+
+// Rules read the spec data defensively; these are the fields everything else relies on
+const isComponent = (value: unknown): value is Component => {
+  if (value === null || typeof value !== 'object') return false;
+  const component = value as Record<string, unknown>;
+  return typeof component.id === 'string' && typeof component.manufacturer === 'string'
+    && typeof component.model === 'string' && typeof component.category === 'string';
+};
+
+const isBuildPart = (value: unknown): value is BuildPart => {
+  if (value === null || typeof value !== 'object') return false;
+  const part = value as Record<string, unknown>;
+  return isComponent(part.component) && (part.position === undefined || part.position === 'FRONT' || part.position === 'REAR');
+};
+
+export async function POST(request: Request) {
+  let body: CompatibilityRequest;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+  if (body === null || typeof body !== 'object') {
+    return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 });
+  }
+  if (body.parts !== undefined && (!Array.isArray(body.parts) || !body.parts.every(isBuildPart))) {
+    return NextResponse.json({ error: 'parts must be an array of { component, position? }' }, { status: 400 });
+  }
+  if (body.parts === undefined && body.components !== undefined && (!Array.isArray(body.components) || !body.components.every(isComponent))) {
+    return NextResponse.json({ error: 'components must be an array of components' }, { status: 400 });
+  }
+  if (body.clearanceMargin !== undefined && (typeof body.clearanceMargin !== 'number' || !isFinite(body.clearanceMargin))) {
+    return NextResponse.json({ error: 'clearanceMargin must be a number' }, { status: 400 });
+  }
+  const components = body.parts ? body.parts.map(part => part.component) : body.components;
+  if (!components || components.length < 2) {
+    return NextResponse.json({ error: 'At least 2 components are required' }, { status: 400 });
+  }
+
+  // Both ends of a record must be in the selection for it to apply
+  const ids = components.map(component => component.id);
+  let records: CompatibilityRecord[];
+  try {
+    records = await prisma.compatibilityRule.findMany({
+      where: { componentFromId: { in: ids }, componentToId: { in: ids } },
+      select: { id: true, componentFromId: true, componentToId: true, compatible: true, warnings: true, requiredParts: true, verified: true }
+    });
+  } catch (error) {
+    console.error('Failed to load compatibility records:', error);
+    return NextResponse.json({ error: 'Compatibility records are unavailable' }, { status: 503 });
+  }
+
+  const parts = body.parts;
+  const options = { clearanceMargin: body.clearanceMargin, records };
+  const run = (catalog?: Component[]) => parts
+    ? BuildValidator.validate(parts, { ...options, catalog })
+    : CompatibilityEngine.checkComponents(components, catalog, options);
+
+  // Check once without a catalog, then load only the categories that could fix what failed
+  const result = run();
+  const categories = CompatibilityEngine.getSuggestedCategories('graph' in result ? result.status.issues : result.issues);
+  const dbCategories = ComponentCatalog.toDbCategories(categories);
+  if (dbCategories.length === 0) return NextResponse.json(result);
+
+  let catalog: Component[];
+  try {
+    const candidates = await prisma.component.findMany({
+      where: { category: { in: dbCategories }, id: { notIn: ids } },
+      include: CATALOG_INCLUDE,
+      take: MAX_CANDIDATES
+    });
+    catalog = candidates.map(record => ComponentCatalog.fromRecord(record));
+  } catch (error) {
+    console.error('Failed to load catalog candidates:', error);
+    return NextResponse.json(result);
+  }
+  return NextResponse.json(run(catalog));
+}
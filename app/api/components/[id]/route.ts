@@ -0,0 +1,34 @@
+// app/api/components/[id]/route.ts
+// One catalog component with its category data and the stored compatibility records that name it.
+
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { CATALOG_INCLUDE, ComponentCatalog } from '@/lib/component-catalog'
+import { CatalogEntry } from '@/types/catalog'
+
+const RECORD_FIELDS = { id: true, componentFromId: true, componentToId: true, compatible: true, warnings: true, requiredParts: true, verified: true } as const;
+
+export async function GET(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const record = await prisma.component.findUnique({
+      where: { id: params.id },
+      include: {
+        ...CATALOG_INCLUDE,
+        compatibilityFrom: { select: RECORD_FIELDS },
+        compatibilityTo: { select: RECORD_FIELDS }
+      }
+    });
+    if (!record) {
+      return NextResponse.json({ error: 'Component not found' }, { status: 404 });
+    }
+
+    const entry: CatalogEntry = {
+      component: ComponentCatalog.fromRecord(record),
+      compatibility: record.compatibilityFrom.concat(record.compatibilityTo)
+    };
+    return NextResponse.json(entry);
+  } catch (error) {
+    console.error('Failed to load component:', error);
+    return NextResponse.json({ error: 'Component catalog is unavailable' }, { status: 503 });
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/components/route.ts
+// Lists catalog components with filtering and pagination.
+
+import { NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { CATALOG_INCLUDE, ComponentCatalog } from '@/lib/component-catalog'
+import { CatalogPage } from '@/types/catalog'
+import { Component } from '@/types/gear-calculator'
+
+const toPage = (components: Component[], total: number, page: number, pageSize: number): CatalogPage => ({
+  components,
+  total,
+  page,
+  pageSize,
+  totalPages: Math.ceil(total / pageSize)
+});
+
+export async function GET(request: Request) {
+  const params = new URL(request.url).searchParams;
+  const invalid = ComponentCatalog.validateQuery(params);
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+  const query = ComponentCatalog.parseQuery(params);
+  const where = ComponentCatalog.buildWhere(query);
+  const orderBy: Prisma.ComponentOrderByWithRelationInput[] = [{ manufacturer: 'asc' }, { model: 'asc' }];
+
+  try {
+    // Cog ranges filter after loading, so those queries page in memory
+    if (query.minCog !== undefined || query.maxCog !== undefined) {
+      const records = await prisma.component.findMany({ where, include: CATALOG_INCLUDE, orderBy });
+      const matches = records.map(record => ComponentCatalog.fromRecord(record))
+        .filter(component => ComponentCatalog.matchesCogRange(component, query));
+      const start = (query.page - 1) * query.pageSize;
+      return NextResponse.json(toPage(matches.slice(start, start + query.pageSize), matches.length, query.page, query.pageSize));
+    }
+
+    const [total, records] = await Promise.all([
+      prisma.component.count({ where }),
+      prisma.component.findMany({
+        where,
+        include: CATALOG_INCLUDE,
+        orderBy,
+        skip: (query.page - 1) * query.pageSize,
+        take: query.pageSize
+      })
+    ]);
+    return NextResponse.json(toPage(records.map(record => ComponentCatalog.fromRecord(record)), total, query.page, query.pageSize));
+  } catch (error) {
+    console.error('Failed to load components:', error);
+    return NextResponse.json({ error: 'Component catalog is unavailable' }, { status: 503 });
+  }
+}
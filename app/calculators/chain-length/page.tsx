@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import { GearCalculator } from '@/lib/gear-calculator'
-import { ChainLengthResult } from '@/types/gear-calculator'
+import { ChainLengthResult, ChainLengthMethod, SuspensionParams, SuspensionChainResult } from '@/types/gear-calculator'
 import { Link, Ruler, Settings, Info, CheckCircle, AlertTriangle, Calculator } from 'lucide-react'
 import { Breadcrumbs } from '@/components/ui/breadcrumbs'
 import { LoadingSpinner } from '@/components/ui/loading'
@@ -19,10 +19,22 @@ const PageHeader = ({ title, description, breadcrumbs }: { title: string; descri
 
 interface ChainLengthParams {
   chainringTeeth: number
+  smallestChainringTeeth?: number
   cassetteLargestCog: number
+  cassetteSmallestCog?: number
   chainstayLength: number
+  sagChainstayLength?: number
   derailleurCapacity?: number
   derailleurType: 'short' | 'medium' | 'long'
+  method: ChainLengthMethod
+}
+
+const METHOD_LABELS: Record<ChainLengthMethod, string> = {
+  shimano: 'Shimano (big-big + 2 links)',
+  sram_eagle: 'SRAM Eagle chart',
+  sram_transmission: 'SRAM Transmission chart',
+  geometric: 'Exact wrap (singlespeed / hub gear)',
+  approximation: 'Quick approximation'
 }
 
 export default function ChainLengthPage() {
@@ -30,11 +42,21 @@ export default function ChainLengthPage() {
     chainringTeeth: 32,
     cassetteLargestCog: 45,
     chainstayLength: 430,
+    cassetteSmallestCog: 10,
     derailleurCapacity: 35,
-    derailleurType: 'medium'
+    derailleurType: 'medium',
+    method: 'shimano'
+  })
+
+  const [fullSuspension, setFullSuspension] = useState(false)
+  const [suspension, setSuspension] = useState<SuspensionParams>({
+    travel: 150,
+    pivot: { x: 50, y: 60 },
+    sag: 30
   })
 
   const [results, setResults] = useState<ChainLengthResult | null>(null)
+  const [suspensionResults, setSuspensionResults] = useState<SuspensionChainResult | null>(null)
   const [isCalculating, setIsCalculating] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
 
@@ -49,12 +71,33 @@ export default function ChainLengthPage() {
     setIsCalculating(true)
     
     try {
-      const chainResults = GearCalculator.calculateChainLength(
-        params.chainringTeeth,
-        params.cassetteLargestCog,
-        params.chainstayLength
-      )
-      setResults(chainResults)
+      const options = {
+        method: params.method,
+        smallestChainring: params.smallestChainringTeeth || undefined,
+        smallestCog: params.cassetteSmallestCog || undefined,
+        derailleurCapacity: params.derailleurCapacity || undefined,
+        cageLength: params.derailleurType,
+        sagChainstayLength: params.sagChainstayLength || undefined
+      }
+      if (fullSuspension) {
+        const suspensionChain = GearCalculator.analyzeSuspensionChain(
+          params.chainringTeeth,
+          params.cassetteLargestCog,
+          params.chainstayLength,
+          suspension,
+          options
+        )
+        setSuspensionResults(suspensionChain)
+        setResults(suspensionChain.chainLength)
+      } else {
+        setSuspensionResults(null)
+        setResults(GearCalculator.calculateChainLength(
+          params.chainringTeeth,
+          params.cassetteLargestCog,
+          params.chainstayLength,
+          options
+        ))
+      }
       toast.success('Chain length calculated successfully!')
     } catch (error) {
       console.error('Calculation error:', error)
@@ -89,6 +132,24 @@ export default function ChainLengthPage() {
             <h2 className="text-2xl font-bold text-gray-900 mb-6">Your Drivetrain</h2>
             
             <div className="space-y-6">
+              {/* Method */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Calculator className="w-4 h-4 inline mr-2" />
+                  Method
+                </label>
+                <select
+                  value={params.method}
+                  onChange={(e) => handleParamChange('method', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  {(Object.keys(METHOD_LABELS) as ChainLengthMethod[]).map((method) => (
+                    <option key={method} value={method}>{METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Use the method your drivetrain manufacturer specifies</p>
+              </div>
+
               {/* Chainring Teeth */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -106,6 +167,23 @@ export default function ChainLengthPage() {
                 <p className="text-xs text-gray-500 mt-1">Number of teeth on your largest chainring</p>
               </div>
 
+              {/* Smallest Chainring */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Settings className="w-4 h-4 inline mr-2" />
+                  Smallest Chainring Teeth (2x/3x only)
+                </label>
+                <input
+                  type="number"
+                  value={params.smallestChainringTeeth ?? ''}
+                  onChange={(e) => handleParamChange('smallestChainringTeeth', parseInt(e.target.value) || undefined)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  min="20"
+                  max="60"
+                />
+                <p className="text-xs text-gray-500 mt-1">Leave empty for 1x drivetrains</p>
+              </div>
+
               {/* Cassette Largest Cog */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -123,6 +201,23 @@ export default function ChainLengthPage() {
                 <p className="text-xs text-gray-500 mt-1">Number of teeth on your largest cassette cog</p>
               </div>
 
+              {/* Cassette Smallest Cog */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Link className="w-4 h-4 inline mr-2" />
+                  Cassette Smallest Cog (T)
+                </label>
+                <input
+                  type="number"
+                  value={params.cassetteSmallestCog ?? ''}
+                  onChange={(e) => handleParamChange('cassetteSmallestCog', parseInt(e.target.value) || undefined)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  min="9"
+                  max="16"
+                />
+                <p className="text-xs text-gray-500 mt-1">Used to check derailleur capacity</p>
+              </div>
+
               {/* Chainstay Length */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -140,6 +235,80 @@ export default function ChainLengthPage() {
                 <p className="text-xs text-gray-500 mt-1">Distance from bottom bracket to rear axle</p>
               </div>
 
+              {/* Full Suspension */}
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={fullSuspension}
+                    onChange={(e) => setFullSuspension(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Full-suspension bike
+                </label>
+                <p className="text-xs text-gray-500 mt-1">Enter the chainstay at top-out; the calculator follows the axle through the travel</p>
+              </div>
+
+              {fullSuspension && (
+                <div className="grid grid-cols-2 gap-4 p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Rear Travel (mm)</label>
+                    <input
+                      type="number"
+                      value={suspension.travel}
+                      onChange={(e) => setSuspension(prev => ({ ...prev, travel: parseInt(e.target.value) || 0 }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Sag (%)</label>
+                    <input
+                      type="number"
+                      value={suspension.sag ?? ''}
+                      onChange={(e) => setSuspension(prev => ({ ...prev, sag: parseInt(e.target.value) || undefined }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Pivot Behind BB (mm)</label>
+                    <input
+                      type="number"
+                      value={suspension.pivot?.x ?? 0}
+                      onChange={(e) => setSuspension(prev => ({ ...prev, pivot: { x: parseFloat(e.target.value) || 0, y: prev.pivot?.y ?? 0 } }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Pivot Above BB (mm)</label>
+                    <input
+                      type="number"
+                      value={suspension.pivot?.y ?? 0}
+                      onChange={(e) => setSuspension(prev => ({ ...prev, pivot: { x: prev.pivot?.x ?? 0, y: parseFloat(e.target.value) || 0 } }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-gray-500">For linkage bikes use the instant centre at sag as the pivot</p>
+                </div>
+              )}
+
+              {(params.method === 'sram_eagle' || params.method === 'sram_transmission') && !fullSuspension && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    <Ruler className="w-4 h-4 inline mr-2" />
+                    Chainstay Length at Sag (mm, full suspension)
+                  </label>
+                  <input
+                    type="number"
+                    value={params.sagChainstayLength ?? ''}
+                    onChange={(e) => handleParamChange('sagChainstayLength', parseInt(e.target.value) || undefined)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    min="400"
+                    max="500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">SRAM charts use the chainstay measured with the shock at sag</p>
+                </div>
+              )}
+
               {/* Derailleur Type */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -195,6 +364,7 @@ export default function ChainLengthPage() {
                 {/* Chain Length Display */}
                 <div className="text-center p-6 bg-gray-50 rounded-lg">
                   <h3 className="font-semibold text-gray-900 mb-2">Recommended Chain Length</h3>
+                  <p className="text-xs text-gray-500 mb-2">{METHOD_LABELS[results.method]}</p>
                   <div className="flex items-center justify-center space-x-4">
                     <div>
                       <p className="text-4xl font-bold text-primary-600">{results.links}</p>
@@ -228,6 +398,43 @@ export default function ChainLengthPage() {
                   </p>
                 </div>
 
+                {/* Suspension */}
+                {suspensionResults && (
+                  <div className="p-4 bg-gray-50 rounded-lg">
+                    <h3 className="font-semibold text-gray-900 mb-2">Through the Travel</h3>
+                    <div className="grid grid-cols-3 gap-2 text-center mb-3">
+                      <div>
+                        <p className="text-lg font-bold text-primary-600">{suspensionResults.growth.toFixed(1)}mm</p>
+                        <p className="text-xs text-gray-600">Chain growth</p>
+                      </div>
+                      <div>
+                        <p className="text-lg font-bold text-primary-600">{suspensionResults.kickback.toFixed(1)}°</p>
+                        <p className="text-xs text-gray-600">Pedal kickback</p>
+                      </div>
+                      <div>
+                        <p className="text-lg font-bold text-primary-600">{suspensionResults.minSafeLinks}</p>
+                        <p className="text-xs text-gray-600">Min safe links</p>
+                      </div>
+                    </div>
+                    <table className="w-full text-xs text-gray-600">
+                      <thead><tr className="text-left border-b"><th className="py-1">Travel</th><th className="py-1">Chainstay</th><th className="py-1">Growth</th><th className="py-1">Kickback</th></tr></thead>
+                      <tbody>
+                        {suspensionResults.curve.filter((_, i) => i % 2 === 0).map((point) => (
+                          <tr key={point.travel}>
+                            <td className="py-1">{point.travel.toFixed(0)}mm</td>
+                            <td className="py-1">{point.chainstayLength.toFixed(1)}mm</td>
+                            <td className="py-1">{point.growth.toFixed(1)}mm</td>
+                            <td className="py-1">{point.kickback.toFixed(1)}°</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {suspensionResults.notes.map((note, index) => (
+                      <p key={index} className="text-xs text-gray-600 mt-2">{note}</p>
+                    ))}
+                  </div>
+                )}
+
                 {/* Notes */}
                 {results.notes.length > 0 && (
                   <div>
@@ -2,7 +2,8 @@
 
 import { useState } from 'react'
 import { GearCalculator } from '@/lib/gear-calculator'
-import { ChainlineResult } from '@/types/gear-calculator'
+import { Standards } from '@/lib/standards'
+import { BBShellStandard, ChainlineResult } from '@/types/gear-calculator'
 import { Target, Ruler, Settings, TrendingUp, AlertTriangle, CheckCircle, Info, Gauge } from 'lucide-react'
 import { Breadcrumbs } from '@/components/ui/breadcrumbs'
 import { LoadingSpinner } from '@/components/ui/loading'
@@ -18,19 +19,26 @@ const PageHeader = ({ title, description, breadcrumbs }: { title: string; descri
 )
 
 interface ChainlineParams {
+  crankChainline?: number
   chainringOffset: number
-  cassetteOffset: number
+  chainrings: string
+  cogs: string
+  hubSpacing: number
   chainstayLength: number
-  bottomBracketWidth: number
+  bbShell: BBShellStandard
   frameType: 'road' | 'mtb' | 'gravel'
 }
 
+const parseTeeth = (value: string) => value.split(',').map(t => parseInt(t.trim())).filter(t => t > 0)
+
 export default function ChainlinePage() {
   const [params, setParams] = useState<ChainlineParams>({
-    chainringOffset: 6,
-    cassetteOffset: 0,
+    chainringOffset: 0,
+    chainrings: '32',
+    cogs: '10, 12, 14, 16, 18, 21, 24, 28, 33, 39, 45, 51',
+    hubSpacing: 148,
     chainstayLength: 430,
-    bottomBracketWidth: 73,
+    bbShell: 'BSA_73',
     frameType: 'mtb'
   })
 
@@ -49,10 +57,15 @@ export default function ChainlinePage() {
     setIsCalculating(true)
     
     try {
+      const chainrings = parseTeeth(params.chainrings)
+      const cogs = parseTeeth(params.cogs).sort((a, b) => a - b)
+      const frontChainline = (params.crankChainline || Standards.getFrontChainline(params.bbShell, chainrings.length)) - params.chainringOffset
+      const rearChainline = Standards.getRearChainline(params.hubSpacing, params.frameType !== 'mtb')
       const chainlineResults = GearCalculator.analyzeChainline(
-        params.chainringOffset,
-        params.cassetteOffset,
-        params.chainstayLength
+        frontChainline,
+        rearChainline,
+        params.chainstayLength,
+        { chainrings, cogs }
       )
       setResults(chainlineResults)
       toast.success('Chainline analysis completed successfully!')
@@ -96,40 +109,90 @@ export default function ChainlinePage() {
             <h2 className="text-2xl font-bold text-gray-900 mb-6">Your Setup</h2>
             
             <div className="space-y-6">
-              {/* Chainring Offset */}
+              {/* Crankset Chainline */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <Target className="w-4 h-4 inline mr-2" />
-                  Chainring Offset (mm)
+                  Crankset Chainline (mm, optional)
                 </label>
                 <input
                   type="number"
-                  value={params.chainringOffset}
-                  onChange={(e) => handleParamChange('chainringOffset', parseFloat(e.target.value))}
+                  value={params.crankChainline ?? ''}
+                  onChange={(e) => handleParamChange('crankChainline', parseFloat(e.target.value) || undefined)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-                  min="-10"
-                  max="20"
+                  min="40"
+                  max="60"
                   step="0.5"
                 />
-                <p className="text-xs text-gray-500 mt-1">Distance from centerline to chainring center</p>
+                <p className="text-xs text-gray-500 mt-1">From the crankset spec; leave empty to use the typical value for your BB shell</p>
               </div>
 
-              {/* Cassette Offset */}
+              {/* Chainring Offset */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <Target className="w-4 h-4 inline mr-2" />
-                  Cassette Offset (mm)
+                  Extra Chainring Offset (mm)
                 </label>
                 <input
                   type="number"
-                  value={params.cassetteOffset}
-                  onChange={(e) => handleParamChange('cassetteOffset', parseFloat(e.target.value))}
+                  value={params.chainringOffset}
+                  onChange={(e) => handleParamChange('chainringOffset', parseFloat(e.target.value) || 0)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-                  min="-5"
-                  max="5"
+                  min="-10"
+                  max="10"
                   step="0.5"
                 />
-                <p className="text-xs text-gray-500 mt-1">Distance from centerline to cassette center</p>
+                <p className="text-xs text-gray-500 mt-1">Direct-mount ring offset beyond the crank's stock ring; more offset moves the ring inboard</p>
+              </div>
+
+              {/* Chainrings */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Settings className="w-4 h-4 inline mr-2" />
+                  Chainrings (T)
+                </label>
+                <input
+                  type="text"
+                  value={params.chainrings}
+                  onChange={(e) => handleParamChange('chainrings', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Comma separated, e.g. 50, 34</p>
+              </div>
+
+              {/* Cassette Cogs */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Settings className="w-4 h-4 inline mr-2" />
+                  Cassette Cogs (T)
+                </label>
+                <input
+                  type="text"
+                  value={params.cogs}
+                  onChange={(e) => handleParamChange('cogs', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Comma separated, smallest to largest</p>
+              </div>
+
+              {/* Hub Spacing */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Ruler className="w-4 h-4 inline mr-2" />
+                  Rear Hub Spacing
+                </label>
+                <select
+                  value={params.hubSpacing}
+                  onChange={(e) => handleParamChange('hubSpacing', parseInt(e.target.value))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  <option value={130}>130mm (Road QR)</option>
+                  <option value={135}>135mm (QR / Road Disc)</option>
+                  <option value={142}>142mm (Thru-Axle)</option>
+                  <option value={148}>148mm (Boost)</option>
+                  <option value={157}>157mm (SuperBoost / DH)</option>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">Sets where the cassette sits</p>
               </div>
 
               {/* Chainstay Length */}
@@ -149,23 +212,22 @@ export default function ChainlinePage() {
                 <p className="text-xs text-gray-500 mt-1">Distance from bottom bracket to rear axle</p>
               </div>
 
-              {/* Bottom Bracket Width */}
+              {/* Bottom Bracket Shell */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <Settings className="w-4 h-4 inline mr-2" />
-                  Bottom Bracket Width (mm)
+                  Bottom Bracket Shell
                 </label>
                 <select
-                  value={params.bottomBracketWidth}
-                  onChange={(e) => handleParamChange('bottomBracketWidth', parseInt(e.target.value))}
+                  value={params.bbShell}
+                  onChange={(e) => handleParamChange('bbShell', e.target.value)}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
                 >
-                  <option value={68}>68mm (Road)</option>
-                  <option value={73}>73mm (MTB)</option>
-                  <option value={83}>83mm (DH/Enduro)</option>
-                  <option value={100}>100mm (Fat Bike)</option>
+                  {(Object.keys(Standards.BB_SHELLS) as BBShellStandard[]).map((shell) => (
+                    <option key={shell} value={shell}>{Standards.BB_SHELLS[shell].label}</option>
+                  ))}
                 </select>
-                <p className="text-xs text-gray-500 mt-1">Affects optimal chainring positioning</p>
+                <p className="text-xs text-gray-500 mt-1">Sets the typical crankset chainline</p>
               </div>
 
               {/* Frame Type */}
@@ -183,7 +245,7 @@ export default function ChainlinePage() {
                   <option value="mtb">Mountain Bike</option>
                   <option value="gravel">Gravel</option>
                 </select>
-                <p className="text-xs text-gray-500 mt-1">Affects optimal chainline targets</p>
+                <p className="text-xs text-gray-500 mt-1">Road and gravel disc hubs keep the cassette further inboard</p>
               </div>
 
               {/* Calculate Button */}
@@ -222,14 +284,14 @@ export default function ChainlinePage() {
                 {/* Chainline Measurements */}
                 <div className="grid grid-cols-2 gap-4">
                   <div className="text-center p-4 bg-primary-50 rounded-lg">
-                    <h3 className="font-semibold text-gray-900 mb-2">Optimal Chainline</h3>
+                    <h3 className="font-semibold text-gray-900 mb-2">Rear Chainline</h3>
                     <p className="text-2xl font-bold text-primary-600">
                       {results.optimalChainline.toFixed(1)}mm
                     </p>
                   </div>
                   
                   <div className="text-center p-4 bg-gray-50 rounded-lg">
-                    <h3 className="font-semibold text-gray-900 mb-2">Current Chainline</h3>
+                    <h3 className="font-semibold text-gray-900 mb-2">Front Chainline</h3>
                     <p className="text-2xl font-bold text-gray-600">
                       {results.currentChainline.toFixed(1)}mm
                     </p>
@@ -238,7 +300,7 @@ export default function ChainlinePage() {
 
                 {/* Deviation */}
                 <div className="p-4 bg-warning-50 rounded-lg">
-                  <h3 className="font-semibold text-gray-900 mb-2">Deviation from Optimal</h3>
+                  <h3 className="font-semibold text-gray-900 mb-2">Front vs Rear</h3>
                   <p className={`text-lg font-bold ${Math.abs(results.deviation) > 2 ? 'text-warning-600' : 'text-success-600'}`}>
                     {results.deviation > 0 ? '+' : ''}{results.deviation.toFixed(1)}mm
                   </p>
@@ -247,6 +309,35 @@ export default function ChainlinePage() {
                   </p>
                 </div>
 
+                {/* Chain Angle per Gear */}
+                {results.chainAngles.length > 1 && (
+                  <div>
+                    <h3 className="font-semibold text-gray-900 mb-3">Chain Angle per Gear</h3>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs text-center">
+                        <thead>
+                          <tr className="border-b text-gray-500">
+                            <th className="py-1 text-left">Cog</th>
+                            {parseTeeth(params.chainrings).map((ring) => <th key={ring} className="py-1">{ring}T</th>)}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {parseTeeth(params.cogs).sort((a, b) => a - b).map((cog) => (
+                            <tr key={cog}>
+                              <td className="py-1 text-left text-gray-600">{cog}T</td>
+                              {results.chainAngles.filter(a => a.cog === cog).map((a) => (
+                                <td key={a.chainring} className={`py-1 ${Math.abs(a.angle) >= 2.5 ? 'text-error-600 font-medium' : Math.abs(a.angle) >= 2 ? 'text-warning-600' : 'text-gray-700'}`}>
+                                  {a.angle.toFixed(1)}°
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+
                 {/* Recommendations */}
                 {results.recommendations.length > 0 && (
                   <div>
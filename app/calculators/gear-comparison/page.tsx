@@ -2,20 +2,44 @@
 
 import { useState } from 'react'
 import { GearCalculator } from '@/lib/gear-calculator'
-import { BikeSetup, Component, type ComparisonResults, CalculatorParams, ChainlineResult, ChainLengthResult } from '@/types/gear-calculator'
-import { ArrowRight, TrendingUp, TrendingDown, AlertTriangle, CheckCircle, XCircle, Weight, DollarSign, Zap, Settings, Bike, Ruler, Wind, Link, Target } from 'lucide-react'
+import { GearingRecommender } from '@/lib/gearing-recommender'
+import { useComponentCatalog } from '@/lib/use-component-catalog'
+import { BikeSetup, Component, type ComparisonResults, CalculatorParams, ChainlineResult, ChainLengthResult, GearRatio, GearExtremeMetric, ShiftAnalysis, PhysicsResult, GearingCandidate, GearingTargets, FreehubType } from '@/types/gear-calculator'
+import { ArrowRight, TrendingUp, TrendingDown, AlertTriangle, CheckCircle, XCircle, Weight, DollarSign, Zap, Settings, Bike, Ruler, Wind, Link, Target, Search } from 'lucide-react'
 import { Breadcrumbs } from '@/components/ui/breadcrumbs'
 import { toast } from '@/components/ui/toast'
 
 // (Assuming PageHeader, sampleComponents, etc. are defined as before)
-// Sample data for demo - in real app this would come from database
+// Shown until the component catalog loads, and when it can't be reached
 const sampleComponents: Component[] = [
   { id: '1', manufacturer: 'Shimano', model: 'XT M8100', weightGrams: 420, msrp: 89.99, category: 'CASSETTE', cassette: { speeds: 12, cogs: [10, 12, 14, 16, 18, 21, 24, 28, 32, 36, 40, 45], freehubType: 'MICRO_SPLINE' } },
   { id: '2', manufacturer: 'SRAM', model: 'GX Eagle', weightGrams: 390, msrp: 95.00, category: 'CASSETTE', cassette: { speeds: 12, cogs: [10, 12, 14, 16, 18, 21, 24, 28, 32, 36, 42, 52], freehubType: 'SRAM_XD' } },
   { id: '3', manufacturer: 'Race Face', model: 'Turbine R 32T', weightGrams: 125, msrp: 89.99, category: 'CHAINRING', chainring: { teeth: 32, bcd: 104, offset: 6 } },
   { id: '4', manufacturer: 'Race Face', model: 'Turbine R 34T', weightGrams: 135, msrp: 89.99, category: 'CHAINRING', chainring: { teeth: 34, bcd: 104, offset: 6 } },
-  { id: '5', manufacturer: 'Shimano', model: 'XT M8100 Crank', weightGrams: 280, msrp: 129.99, category: 'CRANKSET', crankset: { chainrings: [32], bcd: 104, spindleType: 'HOLLOWTECH_II', offset: 3 } },
-  { id: '6', manufacturer: 'SRAM', model: 'GX Eagle Crank', weightGrams: 310, msrp: 145.00, category: 'CRANKSET', crankset: { chainrings: [34], bcd: 104, spindleType: 'DUB', offset: 6 } },
+  { id: '5', manufacturer: 'Shimano', model: 'XT M8100 Crank', weightGrams: 280, msrp: 129.99, category: 'CRANKSET', crankset: { chainrings: [32], bcd: 104, spindleType: 'HOLLOWTECH_II', spindleLength: 73, qFactor: 162, offset: 3, chainline: 52, crankLength: 170 } },
+  { id: '6', manufacturer: 'SRAM', model: 'GX Eagle Crank', weightGrams: 310, msrp: 145.00, category: 'CRANKSET', crankset: { chainrings: [34], bcd: 104, spindleType: 'DUB', spindleLength: 73, qFactor: 168, offset: 6, chainline: 49, crankLength: 170 } },
+  { id: '7', manufacturer: 'Shimano', model: '105 R7100 11-34', weightGrams: 394, msrp: 74.99, category: 'CASSETTE', cassette: { speeds: 12, cogs: [11, 12, 13, 14, 15, 17, 19, 21, 24, 27, 30, 34], freehubType: 'SHIMANO_HG' } },
+  { id: '8', manufacturer: 'Shimano', model: 'Ultegra R8100 11-30', weightGrams: 345, msrp: 129.99, category: 'CASSETTE', cassette: { speeds: 12, cogs: [11, 12, 13, 14, 15, 16, 17, 19, 21, 24, 27, 30], freehubType: 'SHIMANO_HG' } },
+  { id: '9', manufacturer: 'Shimano', model: '105 R7100 Crank 50/34', weightGrams: 740, msrp: 189.99, category: 'CRANKSET', crankset: { chainrings: [50, 34], spindleType: 'HOLLOWTECH_II', spindleLength: 68, qFactor: 148, chainline: 43.5, crankLength: 172.5 } },
+  { id: '11', manufacturer: 'DT Swiss', model: 'XM 1700 29', weightGrams: 1845, msrp: 749.00, category: 'WHEEL', wheel: { diameter: 29, bsd: 622, width: 30 } },
+  { id: '12', manufacturer: 'Zipp', model: '303 S 700c', weightGrams: 1530, msrp: 1300.00, category: 'WHEEL', wheel: { diameter: 28, bsd: 622, width: 23 } },
+  { id: '13', manufacturer: 'Maxxis', model: 'Minion DHF 29x2.6', weightGrams: 1130, msrp: 89.99, category: 'TIRE', tire: { width: 2.6, diameter: 29 } },
+  { id: '14', manufacturer: 'Maxxis', model: 'Rekon Race 29x2.2', weightGrams: 720, msrp: 79.99, category: 'TIRE', tire: { width: 2.2, diameter: 29 } },
+  { id: '15', manufacturer: 'Continental', model: 'GP5000 S TR 700x28', weightGrams: 290, msrp: 89.95, category: 'TIRE', tire: { width: 28, diameter: 28 } },
+  { id: '16', manufacturer: 'Rohloff', model: 'Speedhub 500/14', weightGrams: 1825, msrp: 1499.00, category: 'INTERNAL_GEAR_HUB', internalGear: { type: 'HUB', ratios: [0.279, 0.316, 0.360, 0.409, 0.464, 0.528, 0.600, 0.682, 0.774, 0.881, 1.000, 1.135, 1.292, 1.467], sprocketRange: { min: 13, max: 19 }, minDriveRatio: 2.35, dropoutTypes: ['HORIZONTAL', 'SLIDING', 'ECCENTRIC_BB'] } },
+  { id: '17', manufacturer: 'Shimano', model: 'Alfine SG-S7001-11', weightGrams: 1635, msrp: 429.99, category: 'INTERNAL_GEAR_HUB', internalGear: { type: 'HUB', ratios: [0.527, 0.681, 0.770, 0.878, 0.995, 1.134, 1.292, 1.462, 1.667, 1.888, 2.153], sprocketRange: { min: 18, max: 23 }, minDriveRatio: 1.9, dropoutTypes: ['HORIZONTAL', 'SLIDING', 'ECCENTRIC_BB'] } },
+  { id: '18', manufacturer: 'Shimano', model: 'Nexus SG-C3001-7', weightGrams: 1340, msrp: 139.99, category: 'INTERNAL_GEAR_HUB', internalGear: { type: 'HUB', ratios: [0.632, 0.741, 0.843, 0.989, 1.145, 1.335, 1.545], sprocketRange: { min: 16, max: 23 }, dropoutTypes: ['HORIZONTAL', 'SLIDING', 'ECCENTRIC_BB'] } },
+  { id: '19', manufacturer: 'Enviolo', model: 'Trekking', weightGrams: 2450, msrp: 399.00, category: 'INTERNAL_GEAR_HUB', internalGear: { type: 'HUB', ratios: [0.5, 1.9], continuous: true, sprocketRange: { min: 16, max: 24 }, minDriveRatio: 1.8, dropoutTypes: ['HORIZONTAL', 'SLIDING', 'ECCENTRIC_BB'] } },
+  { id: '20', manufacturer: 'Pinion', model: 'C1.12', weightGrams: 2100, msrp: 1650.00, category: 'GEARBOX', internalGear: { type: 'GEARBOX', ratios: [0.35, 0.412, 0.485, 0.571, 0.672, 0.791, 0.931, 1.096, 1.29, 1.518, 1.787, 2.103], sprocketRange: { min: 20, max: 42 }, chainringRange: { min: 18, max: 39 }, dropoutTypes: ['GEARBOX_MOUNT'] } },
+  { id: '21', manufacturer: 'Surly', model: '18T Cog', weightGrams: 40, msrp: 24.00, category: 'SPROCKET', sprocket: { teeth: 18 } },
+  { id: '22', manufacturer: 'Shimano', model: 'CS-S500 20T', weightGrams: 45, msrp: 12.00, category: 'SPROCKET', sprocket: { teeth: 20 } },
+  { id: '23', manufacturer: 'Gates', model: 'CDX 28T Sprocket', weightGrams: 90, msrp: 65.00, category: 'SPROCKET', sprocket: { teeth: 28 } },
+  { id: '24', manufacturer: 'Shimano', model: 'XT M8100 SGS', weightGrams: 318, msrp: 119.99, category: 'DERAILLEUR', derailleur: { speeds: 12, maxCog: 51, capacity: 41 } },
+  { id: '25', manufacturer: 'SRAM', model: 'GX Eagle', weightGrams: 290, msrp: 139.00, category: 'DERAILLEUR', derailleur: { speeds: 12, maxCog: 52, capacity: 42 } },
+  { id: '26', manufacturer: 'Shimano', model: '105 R7100 GS', weightGrams: 262, msrp: 99.99, category: 'DERAILLEUR', derailleur: { speeds: 12, maxCog: 36, capacity: 39 } },
+  { id: '27', manufacturer: 'Shimano', model: 'CN-M8100 12s', weightGrams: 252, msrp: 44.99, category: 'CHAIN', chain: { speeds: 12 } },
+  { id: '28', manufacturer: 'KMC', model: 'X11', weightGrams: 257, msrp: 34.99, category: 'CHAIN', chain: { speeds: 11 } },
+  { id: '10', manufacturer: 'Shimano', model: 'GRX RX810 Crank 48/31', weightGrams: 723, msrp: 259.99, category: 'CRANKSET', crankset: { chainrings: [48, 31], spindleType: 'HOLLOWTECH_II', spindleLength: 68, qFactor: 150, chainline: 46.4, crankLength: 172.5 } },
 ];
 
 const PageHeader = ({ title, description, breadcrumbs }: { title: string; description: string; breadcrumbs: Array<{ label: string; href: string }> }) => (
@@ -29,8 +53,10 @@ const PageHeader = ({ title, description, breadcrumbs }: { title: string; descri
 // MODIFIED: ComponentSelector handles crankset correctly
 function ComponentSelector({ title, setup, onSetupChange, components }: { title: string, setup: BikeSetup, onSetupChange: (setup: BikeSetup) => void, components: Component[] }) {
   const [selectedCategory, setSelectedCategory] = useState<string>('CASSETTE')
-  const categories = ['CASSETTE', 'CHAINRING', 'CRANKSET']
-  const filteredComponents = components.filter(comp => comp.category === selectedCategory)
+  const categories = ['CASSETTE', 'CHAINRING', 'CRANKSET', 'DERAILLEUR', 'CHAIN', 'INTERNAL_GEAR', 'SPROCKET', 'WHEEL', 'TIRE']
+  // Internal gear hubs and gearboxes share one tab
+  const filteredComponents = components.filter(comp => comp.category === selectedCategory ||
+    (selectedCategory === 'INTERNAL_GEAR' && (comp.category === 'INTERNAL_GEAR_HUB' || comp.category === 'GEARBOX')))
 
   const handleComponentSelect = (component: Component) => {
     const newSetup = { ...setup }
@@ -38,6 +64,12 @@ function ComponentSelector({ title, setup, onSetupChange, components }: { title:
       case 'CASSETTE': newSetup.cassette = component; break;
       case 'CHAINRING': newSetup.chainring = component; break;
       case 'CRANKSET': newSetup.crankset = component; break; // Correctly set crankset
+      case 'INTERNAL_GEAR_HUB': case 'GEARBOX': newSetup.internalGear = component; break;
+      case 'SPROCKET': newSetup.sprocket = component; break;
+      case 'DERAILLEUR': newSetup.derailleur = component; break;
+      case 'CHAIN': newSetup.chain = component; break;
+      case 'WHEEL': newSetup.wheel = component; break;
+      case 'TIRE': newSetup.tire = component; break;
       default: break;
     }
     onSetupChange(newSetup);
@@ -48,6 +80,12 @@ function ComponentSelector({ title, setup, onSetupChange, components }: { title:
       case 'CASSETTE': return setup.cassette;
       case 'CHAINRING': return setup.chainring;
       case 'CRANKSET': return setup.crankset; // Correctly get crankset
+      case 'INTERNAL_GEAR': return setup.internalGear;
+      case 'SPROCKET': return setup.sprocket;
+      case 'DERAILLEUR': return setup.derailleur;
+      case 'CHAIN': return setup.chain;
+      case 'WHEEL': return setup.wheel;
+      case 'TIRE': return setup.tire;
       default: return null;
     }
   }
@@ -87,8 +125,153 @@ function ComponentSelector({ title, setup, onSetupChange, components }: { title:
   )
 }
 
+function MetricCard({ label, current, proposed, unit, difference, higherIsBetter }: { label: string, current: number, proposed: number, unit: string, difference: number, higherIsBetter: boolean }) {
+  const improved = higherIsBetter ? difference > 0 : difference < 0;
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <p className="text-sm text-gray-600 mb-2">{label}</p>
+      <div className="flex items-center justify-between">
+        <span className="text-gray-700">{current} {unit}</span>
+        <ArrowRight className="w-4 h-4 text-gray-400" />
+        <span className="font-bold text-gray-900">{proposed} {unit}</span>
+      </div>
+      {difference !== 0 && (
+        <p className={`text-xs mt-2 flex items-center ${improved ? 'text-green-600' : 'text-red-600'}`}>
+          {difference > 0 ? <TrendingUp className="w-3 h-3 mr-1" /> : <TrendingDown className="w-3 h-3 mr-1" />}
+          {difference > 0 ? '+' : ''}{difference} {unit}
+        </p>
+      )}
+    </div>
+  )
+}
+
+type GearMeasure = 'ratio' | 'gearInches' | 'development' | 'gainRatio'
+
+const GEAR_MEASURES: Array<{ key: GearMeasure; label: string; unit: string; digits: number }> = [
+  { key: 'ratio', label: 'Ratio', unit: '', digits: 2 },
+  { key: 'gearInches', label: 'Gear Inches', unit: 'in', digits: 1 },
+  { key: 'development', label: 'Development', unit: 'm', digits: 2 },
+  { key: 'gainRatio', label: 'Gain Ratio', unit: '', digits: 2 },
+]
+
+// Easiest and hardest gear in every unit, current next to proposed
+function GearDetailTable({ lowestGear, highestGear }: { lowestGear: GearExtremeMetric, highestGear: GearExtremeMetric }) {
+  const format = (gear: GearRatio | undefined, measure: typeof GEAR_MEASURES[number]) =>
+    gear ? `${gear[measure.key].toFixed(measure.digits)}${measure.unit ? ` ${measure.unit}` : ''}` : '-';
+  return (
+    <table className="min-w-full text-sm mb-6">
+      <thead>
+        <tr className="text-gray-500">
+          <th className="py-1 text-left font-medium"></th>
+          <th className="py-1 text-right font-medium">Easiest (current)</th>
+          <th className="py-1 text-right font-medium">Easiest (proposed)</th>
+          <th className="py-1 text-right font-medium">Hardest (current)</th>
+          <th className="py-1 text-right font-medium">Hardest (proposed)</th>
+        </tr>
+      </thead>
+      <tbody>
+        {GEAR_MEASURES.map(measure => (
+          <tr key={measure.key} className="border-t">
+            <td className="py-1 text-gray-700">{measure.label}</td>
+            <td className="py-1 text-right text-gray-700">{format(lowestGear.current, measure)}</td>
+            <td className="py-1 text-right font-bold text-gray-900">{format(lowestGear.proposed, measure)}</td>
+            <td className="py-1 text-right text-gray-700">{format(highestGear.current, measure)}</td>
+            <td className="py-1 text-right font-bold text-gray-900">{format(highestGear.proposed, measure)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+// One row per chainring so 2x/3x setups show every combination
+function GearTable({ title, gearRatios, measure }: { title: string, gearRatios: GearRatio[], measure: GearMeasure }) {
+  const chainrings = Array.from(new Set(gearRatios.map(g => g.chainring))).sort((a, b) => b - a);
+  const cogs = Array.from(new Set(gearRatios.map(g => g.cog))).sort((a, b) => a - b);
+  const digits = GEAR_MEASURES.find(m => m.key === measure)?.digits ?? 2;
+  if (gearRatios.length === 0) return null;
+  return (
+    <div className="overflow-x-auto">
+      <h4 className="font-semibold text-gray-800 mb-2">{title}</h4>
+      <table className="min-w-full text-xs text-center">
+        <thead>
+          <tr>
+            <th className="px-2 py-1 text-left text-gray-500">Ring \ Cog</th>
+            {cogs.map(cog => <th key={cog} className="px-2 py-1 text-gray-500">{cog}T</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {chainrings.map(chainring => (
+            <tr key={chainring} className="border-t">
+              <td className="px-2 py-1 text-left font-medium text-gray-700">{chainring}T</td>
+              {cogs.map(cog => {
+                const gear = gearRatios.find(g => g.chainring === chainring && g.cog === cog);
+                return <td key={cog} className="px-2 py-1 text-gray-900">{gear ? gear[measure].toFixed(digits) : '-'}</td>
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+function ShiftStepSummary({ title, analysis, isSmoother }: { title: string, analysis: ShiftAnalysis, isSmoother: boolean }) {
+  return (
+    <div className={`p-4 rounded-lg border ${isSmoother ? 'border-green-300 bg-green-50' : 'border-gray-200 bg-gray-50'}`}>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-semibold text-gray-800">{title}</h4>
+        {isSmoother && <span className="text-xs font-medium text-green-700 flex items-center"><CheckCircle className="w-3 h-3 mr-1" />Smoother</span>}
+      </div>
+      <p className="text-sm text-gray-700">Average step in band: <span className="font-bold">{analysis.bandAverageStep}%</span> (max {analysis.bandMaxStep}%)</p>
+      <p className="text-sm text-gray-700">Average step overall: <span className="font-bold">{analysis.averageStep}%</span> (max {analysis.maxStep}%)</p>
+      <p className="text-sm text-gray-700">Usable gears: <span className="font-bold">{analysis.sequence.length}</span> of {analysis.uniqueGears} unique</p>
+      {analysis.gaps.length > 0 && (
+        <p className="text-xs text-red-600 mt-2">Big gaps: {analysis.gaps.map(step => `${step.from.cog}T→${step.to.cog}T (${step.stepPercent}%)`).join(', ')}</p>
+      )}
+      {analysis.duplicates.length > 0 && (
+        <p className="text-xs text-yellow-700 mt-1">Near-duplicates: {analysis.duplicates.map(d => `${d.lower.chainring}x${d.lower.cog} ≈ ${d.higher.chainring}x${d.higher.cog}`).join(', ')}</p>
+      )}
+      {analysis.steps.filter(step => step.shift === 'front').map((step, index) => (
+        <p key={index} className="text-xs text-gray-500 mt-1">
+          Front shift {step.from.chainring}T→{step.to.chainring}T with {Math.abs(step.rearCompensation)} cog{Math.abs(step.rearCompensation) === 1 ? '' : 's'} rear compensation ({step.stepPercent}%)
+        </p>
+      ))}
+    </div>
+  )
+}
+
+function PhysicsSummary({ title, result }: { title: string, result: PhysicsResult }) {
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <h4 className="font-semibold text-gray-800 mb-2">{title}</h4>
+      <p className="text-sm text-gray-700">Speed at power: <span className="font-bold">{result.speedAtPower} mph</span> ({result.topGearCadence} RPM in top gear)</p>
+      <p className="text-sm text-gray-700">Steepest climb at {result.targetCadence} RPM: <span className="font-bold">{result.maxGradient}%</span></p>
+      <table className="min-w-full text-xs mt-3">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left py-1 font-medium">Grade</th>
+            <th className="text-right py-1 font-medium">Speed</th>
+            <th className="text-right py-1 font-medium">Cadence (lowest gear)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.cadenceByGradient.map(row => (
+            <tr key={row.gradient} className="border-t">
+              <td className="py-1 text-gray-700">{row.gradient}%</td>
+              <td className="py-1 text-right text-gray-700">{row.speed} mph</td>
+              <td className={`py-1 text-right font-medium ${row.cadence < 60 ? 'text-red-600' : 'text-gray-900'}`}>{row.cadence} RPM</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
 // MODIFIED: Results component now displays chainline and chain length
 function ComparisonResultsDisplay({ results, params }: { results: ComparisonResults | null, params: CalculatorParams }) {
+  const [measure, setMeasure] = useState<GearMeasure>('ratio')
   if (!results) {
     return (
       <div className="bg-gray-50 rounded-lg p-8 text-center">
@@ -97,8 +280,8 @@ function ComparisonResultsDisplay({ results, params }: { results: ComparisonResu
       </div>
     )
   }
-  const { performance, weight, compatibility, cost, chainLength, chainline } = results;
-  const contextText = `at ${params.cadence} RPM, ${params.wheelDiameter}" wheel`;
+  const { performance, weight, compatibility, cost, chainLength, chainline, bottomBracket } = results;
+  const contextText = `at ${params.cadence} RPM, ${performance.wheelCircumference.current}mm → ${performance.wheelCircumference.proposed}mm rollout`;
 
   return (
     <div className="space-y-6">
@@ -106,7 +289,78 @@ function ComparisonResultsDisplay({ results, params }: { results: ComparisonResu
       <div className="bg-white rounded-lg shadow-sm border p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center"><Zap className="w-5 h-5 text-primary-600 mr-2" /> Performance</h3>
         <p className="text-xs text-gray-500 mb-4 ml-7">Calculated {contextText}</p>
-        {/* Cards for top speed, climbing, range */}
+        <div className="grid md:grid-cols-3 gap-4 mb-6">
+          <MetricCard label="Top Speed" current={performance.topSpeed.current} proposed={performance.topSpeed.proposed} unit={performance.topSpeed.unit} difference={performance.topSpeed.difference} higherIsBetter />
+          <MetricCard label="Climbing Gear" current={performance.climbingGear.current} proposed={performance.climbingGear.proposed} unit={performance.climbingGear.unit} difference={performance.climbingGear.difference} higherIsBetter={false} />
+          <MetricCard label="Gear Range" current={performance.gearRange.current} proposed={performance.gearRange.proposed} unit={performance.gearRange.unit} difference={performance.gearRange.difference} higherIsBetter />
+        </div>
+        <GearDetailTable lowestGear={performance.lowestGear} highestGear={performance.highestGear} />
+        <div className="flex flex-wrap gap-2 mb-4">
+          {GEAR_MEASURES.map(m => (
+            <button key={m.key} onClick={() => setMeasure(m.key)} className={`px-3 py-1 rounded-lg text-xs font-medium transition-colors ${measure === m.key ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}>
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-4">
+          <GearTable title="Current Gears" gearRatios={performance.currentGearRatios} measure={measure} />
+          <GearTable title="Proposed Gears" gearRatios={performance.gearRatios} measure={measure} />
+        </div>
+      </div>
+
+      {/* Speed & Climbing */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center"><Target className="w-5 h-5 text-primary-600 mr-2" /> Speed & Climbing</h3>
+        <p className="text-xs text-gray-500 mb-4 ml-7">At {params.riderPower}W, {params.gradient || 0}% grade, {(params.riderWeight || 0) + (params.bikeWeight || 0)} lbs total</p>
+        <div className="grid md:grid-cols-2 gap-4">
+          <PhysicsSummary title="Current" result={performance.physics.current} />
+          <PhysicsSummary title="Proposed" result={performance.physics.proposed} />
+        </div>
+      </div>
+
+      {/* Shift Steps */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center"><TrendingUp className="w-5 h-5 text-primary-600 mr-2" /> Shift Steps</h3>
+        <p className="text-xs text-gray-500 mb-4 ml-7">
+          {params.cruisingSpeedMin || params.cruisingSpeedMax ? `Band: ${params.cruisingSpeedMin || 0}-${params.cruisingSpeedMax || '∞'} mph at ${params.cadence} RPM` : 'Band: all gears'}
+        </p>
+        <div className="grid md:grid-cols-2 gap-4">
+          <ShiftStepSummary title="Current" analysis={performance.shiftSteps.current} isSmoother={performance.shiftSteps.smoother === 'current'} />
+          <ShiftStepSummary title="Proposed" analysis={performance.shiftSteps.proposed} isSmoother={performance.shiftSteps.smoother === 'proposed'} />
+        </div>
+      </div>
+
+      {/* Cross-Chaining */}
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center"><Wind className="w-5 h-5 text-primary-600 mr-2" /> Cross-Chaining</h3>
+        <div className="grid md:grid-cols-3 gap-4 mb-4">
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600">Current gears cross-chained</p>
+            <p className="text-xl font-bold text-gray-900">{performance.efficiency.crossChaining.current.length}</p>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600">Proposed gears cross-chained</p>
+            <p className="text-xl font-bold text-gray-900">{performance.efficiency.crossChaining.proposed.length}</p>
+            <p className="text-xs text-gray-500">Average loss {performance.efficiency.efficiencyLoss}%</p>
+          </div>
+          <div className="p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600">Improvement</p>
+            <p className={`text-xl font-bold ${performance.efficiency.crossChaining.improvement >= 0 ? 'text-green-600' : 'text-red-600'}`}>{performance.efficiency.crossChaining.improvement}%</p>
+          </div>
+        </div>
+        {performance.efficiency.crossChaining.proposed.length > 0 && (
+          <div className="space-y-2">
+            {performance.efficiency.crossChaining.proposed.map((issue) => (
+              <div key={issue.gear} className="p-3 border rounded-lg flex items-start">
+                <AlertTriangle className={`w-4 h-4 mt-0.5 mr-2 flex-shrink-0 ${issue.severity === 'high' ? 'text-red-600' : issue.severity === 'medium' ? 'text-yellow-600' : 'text-gray-400'}`} />
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{issue.gear} • {issue.deflectionAngle.toFixed(1)}° • -{issue.efficiencyLoss}%</p>
+                  <p className="text-xs text-gray-600">{issue.recommendation}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
       {/* Weight & Cost */}
@@ -136,8 +390,20 @@ function ComparisonResultsDisplay({ results, params }: { results: ComparisonResu
               <h4 className="font-semibold text-gray-800 mb-2 flex items-center"><Link className="w-4 h-4 mr-2"/>Chain Length</h4>
               <p>Recommended Links: <span className="font-bold">{chainLength.links}</span></p>
               <p>Acceptable Range: <span className="font-bold">{chainLength.tolerance.min} - {chainLength.tolerance.max} links</span></p>
+              <p>Method: <span className="font-bold">{chainLength.method.replace('_', ' ')}</span></p>
               <p className="text-xs text-gray-500 mt-1">{chainLength.notes[0]}</p>
             </div>
+            {bottomBracket && (
+              <div>
+                <h4 className="font-semibold text-gray-800 mb-2 flex items-center"><Settings className="w-4 h-4 mr-2"/>Bottom Bracket</h4>
+                <p className={bottomBracket.fits ? '' : 'text-red-600'}>{bottomBracket.fits ? bottomBracket.bottomBracket : `Does not fit: ${bottomBracket.reason}`}</p>
+                {bottomBracket.qFactor !== undefined && (
+                  <p>Q-factor: <span className="font-bold">{bottomBracket.qFactor}mm</span>{bottomBracket.qFactorChange ? ` (${bottomBracket.qFactorChange > 0 ? '+' : ''}${bottomBracket.qFactorChange}mm)` : ''}</p>
+                )}
+                <p>Front chainline: <span className="font-bold">{bottomBracket.chainline.toFixed(1)}mm</span>{bottomBracket.chainlineChange ? ` (${bottomBracket.chainlineChange > 0 ? '+' : ''}${bottomBracket.chainlineChange}mm)` : ''}</p>
+                {bottomBracket.spacers > 0 && <p className="text-xs text-gray-500 mt-1">{bottomBracket.spacers}mm of BB spacers</p>}
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -148,32 +414,154 @@ function ComparisonResultsDisplay({ results, params }: { results: ComparisonResu
           {compatibility.isCompatible ? <CheckCircle className="w-5 h-5 text-green-600 mr-2" /> : <XCircle className="w-5 h-5 text-red-600 mr-2" />}
           Compatibility
         </h3>
-        {/* Compatibility details */}
+        {compatibility.issues.length === 0 ? (
+          <p className="text-sm text-gray-600">No compatibility issues found.</p>
+        ) : (
+          <div className="space-y-2">
+            {compatibility.issues.map((issue, i) => (
+              <div key={i} className={`p-3 rounded-lg text-sm ${issue.severity === 'critical' || issue.severity === 'high' ? 'bg-red-50 text-red-800' : 'bg-yellow-50 text-yellow-800'}`}>
+                <p className="font-medium capitalize">{issue.severity} • {issue.type}</p>
+                <p>{issue.message}</p>
+                {!!issue.costToFix && <p className="text-xs mt-1">Estimated fix: ${issue.costToFix.toFixed(2)}</p>}
+              </div>
+            ))}
+          </div>
+        )}
+        {compatibility.solutions.length > 0 && (
+          <div className="mt-4 space-y-2">
+            <h4 className="font-medium text-gray-900">Fixes</h4>
+            {compatibility.solutions.map((solution, i) => (
+              <div key={i} className="p-3 rounded-lg text-sm bg-blue-50 text-blue-900 flex items-center justify-between">
+                <p>{solution.message}</p>
+                <p className="text-xs text-blue-700 ml-4 whitespace-nowrap">${solution.cost.toFixed(2)} • {solution.effort} • {solution.reliability}%</p>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   )
 }
 
+const FREEHUB_OPTIONS: FreehubType[] = ['SHIMANO_HG', 'SHIMANO_HG_L', 'SHIMANO_HG_L2', 'MICRO_SPLINE', 'SRAM_XD', 'SRAM_XDR', 'CAMPAGNOLO', 'CAMPAGNOLO_N3W'];
+
+function GearingFinder({ params, baseSetup, components, onLoad }: { params: CalculatorParams, baseSetup: BikeSetup, components: Component[], onLoad: (setup: BikeSetup) => void }) {
+  const [targets, setTargets] = useState<GearingTargets>({ lowestRatio: 0.75, topSpeed: 22 })
+  const [derailleurId, setDerailleurId] = useState<string>('')
+  const [candidates, setCandidates] = useState<GearingCandidate[] | null>(null)
+  const derailleurs = components.filter(c => c.category === 'DERAILLEUR')
+
+  const handleSearch = () => {
+    const derailleur = derailleurs.find(d => d.id === derailleurId)
+    setCandidates(GearingRecommender.recommend(components, { ...targets, derailleur, cadence: params.cadence }, params, baseSetup))
+  }
+
+  const describe = (setup: BikeSetup) => {
+    const front = setup.crankset || setup.chainring
+    return `${front?.manufacturer} ${front?.model} + ${setup.cassette?.manufacturer} ${setup.cassette?.model}`
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center"><Search className="w-5 h-5 text-primary-600 mr-2" /> Find Gearing</h3>
+      <p className="text-sm text-gray-500 mb-4">Search the catalog for drivetrains that hit your targets, ranked by weight, cost and shift smoothness. Wheel and tire come from your current setup.</p>
+      <div className="grid md:grid-cols-4 gap-6 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Lowest Ratio (at most)</label>
+          <input type="number" step="0.05" value={targets.lowestRatio ?? ''} onChange={e => setTargets(prev => ({ ...prev, lowestRatio: parseFloat(e.target.value) || undefined }))} className="w-full px-3 py-2 border border-gray-300 rounded-md"/>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Top Speed at Cadence (mph)</label>
+          <input type="number" value={targets.topSpeed ?? ''} onChange={e => setTargets(prev => ({ ...prev, topSpeed: parseFloat(e.target.value) || undefined }))} className="w-full px-3 py-2 border border-gray-300 rounded-md"/>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Freehub</label>
+          <select value={targets.freehubType || ''} onChange={e => setTargets(prev => ({ ...prev, freehubType: (e.target.value || undefined) as FreehubType | undefined }))} className="w-full px-3 py-2 border border-gray-300 rounded-md">
+            <option value="">Any</option>
+            {FREEHUB_OPTIONS.map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Rear Derailleur</label>
+          <select value={derailleurId} onChange={e => setDerailleurId(e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md">
+            <option value="">Any</option>
+            {derailleurs.map(d => <option key={d.id} value={d.id}>{d.manufacturer} {d.model}</option>)}
+          </select>
+        </div>
+      </div>
+      <button onClick={handleSearch} className="inline-flex items-center px-4 py-2 bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors text-sm font-medium">
+        Find Combinations <Search className="w-4 h-4 ml-2" />
+      </button>
+      {candidates && (
+        candidates.length === 0 ? (
+          <p className="mt-4 text-sm text-gray-600">No combination in the catalog meets these targets. Try relaxing the lowest ratio or top speed.</p>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead><tr className="text-left text-gray-500 border-b"><th className="py-2 pr-4">Combination</th><th className="py-2 pr-4">Lowest</th><th className="py-2 pr-4">Top Speed</th><th className="py-2 pr-4">Avg Step</th><th className="py-2 pr-4">Weight</th><th className="py-2 pr-4">Cost</th><th className="py-2 pr-4">Score</th><th className="py-2"></th></tr></thead>
+              <tbody>
+                {candidates.map((candidate, i) => (
+                  <tr key={i} className="border-b last:border-0">
+                    <td className="py-2 pr-4 font-medium text-gray-900">{describe(candidate.setup)}</td>
+                    <td className="py-2 pr-4">{candidate.lowestRatio.toFixed(2)}</td>
+                    <td className="py-2 pr-4">{candidate.topSpeed.toFixed(1)} mph</td>
+                    <td className="py-2 pr-4">{candidate.averageStep.toFixed(1)}%</td>
+                    <td className="py-2 pr-4">{candidate.weight}g</td>
+                    <td className="py-2 pr-4">${candidate.cost.toFixed(2)}</td>
+                    <td className="py-2 pr-4">{candidate.score}</td>
+                    <td className="py-2"><button onClick={() => onLoad(candidate.setup)} className="text-primary-600 hover:text-primary-700 font-medium">Load as proposed</button></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
+
 export default function GearComparisonPage() {
+  const { components, source, loading } = useComponentCatalog(sampleComponents)
   const [currentSetup, setCurrentSetup] = useState<BikeSetup>({})
   const [proposedSetup, setProposedSetup] = useState<BikeSetup>({})
   const [results, setResults] = useState<ComparisonResults | null>(null)
   const [params, setParams] = useState<CalculatorParams>({
     wheelDiameter: 29,
     cadence: 90,
-    chainstayLength: 435
+    chainstayLength: 435,
+    cruisingSpeedMin: 12,
+    cruisingSpeedMax: 25,
+    riderWeight: 165,
+    bikeWeight: 28,
+    riderPower: 200,
+    cda: 0.4,
+    crr: 0.006,
+    gradient: 0,
+    drivetrainEfficiency: 97
   });
 
+  const physicsFields: Array<{ field: keyof CalculatorParams; label: string; step?: string }> = [
+    { field: 'riderWeight', label: 'Rider Weight (lbs)' },
+    { field: 'bikeWeight', label: 'Bike Weight (lbs)' },
+    { field: 'riderPower', label: 'Sustained Power (W)' },
+    { field: 'gradient', label: 'Gradient (%)', step: '0.5' },
+    { field: 'cda', label: 'CdA (m²)', step: '0.01' },
+    { field: 'crr', label: 'Rolling Resistance (Crr)', step: '0.001' },
+    { field: 'drivetrainEfficiency', label: 'Drivetrain Efficiency (%)', step: '0.5' },
+  ];
+
   const handleParamChange = (field: keyof CalculatorParams, value: any) => {
     setParams(prev => ({ ...prev, [field]: parseFloat(value) || 0 }));
   }
 
   const handleCompare = () => {
-    if (!currentSetup.cassette || (!currentSetup.chainring && !currentSetup.crankset) || !proposedSetup.cassette || (!proposedSetup.chainring && !proposedSetup.crankset)) {
-      toast.error('Please select a cassette and a chainring/crankset for both setups.');
+    const hasRearGearing = (setup: BikeSetup) => setup.internalGear ? !!setup.sprocket : !!setup.cassette;
+    if (!hasRearGearing(currentSetup) || (!currentSetup.chainring && !currentSetup.crankset) || !hasRearGearing(proposedSetup) || (!proposedSetup.chainring && !proposedSetup.crankset)) {
+      toast.error('Please select a cassette (or internal gear hub and sprocket) and a chainring/crankset for both setups.');
       return;
     }
-    const comparisonResults = GearCalculator.compareSetups(currentSetup, proposedSetup, params);
+    const comparisonResults = GearCalculator.compareSetups(currentSetup, proposedSetup, params, components);
     setResults(comparisonResults);
     toast.success('Gear comparison completed successfully!');
   }
@@ -194,6 +582,12 @@ export default function GearComparisonPage() {
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Wheel Diameter (in)</label>
               <input type="number" value={params.wheelDiameter} onChange={e => handleParamChange('wheelDiameter', e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md"/>
+              <p className="text-xs text-gray-500 mt-1">Only used when no tire is selected</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Measured Rollout (mm, optional)</label>
+              <input type="number" value={params.measuredRollout || ''} onChange={e => handleParamChange('measuredRollout', e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md"/>
+              <p className="text-xs text-gray-500 mt-1">Overrides the tire-derived circumference</p>
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Typical Cadence (RPM)</label>
@@ -203,12 +597,37 @@ export default function GearComparisonPage() {
               <label className="block text-sm font-medium text-gray-700 mb-1">Chainstay Length (mm)</label>
               <input type="number" value={params.chainstayLength} onChange={e => handleParamChange('chainstayLength', e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md"/>
             </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cruising Speed From (mph)</label>
+              <input type="number" value={params.cruisingSpeedMin} onChange={e => handleParamChange('cruisingSpeedMin', e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md"/>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Cruising Speed To (mph)</label>
+              <input type="number" value={params.cruisingSpeedMax} onChange={e => handleParamChange('cruisingSpeedMax', e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md"/>
+            </div>
           </div>
         </div>
 
+        <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center"><Wind className="w-5 h-5 text-primary-600 mr-2" /> Rider & Conditions</h3>
+          <div className="grid md:grid-cols-4 gap-6">
+            {physicsFields.map(({ field, label, step }) => (
+              <div key={field}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input type="number" step={step} value={params[field] ?? ''} onChange={e => handleParamChange(field, e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md"/>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <GearingFinder params={params} baseSetup={currentSetup} components={components} onLoad={(setup) => { setProposedSetup(setup); toast.success('Loaded candidate into the proposed setup.'); }} />
+
+        {!loading && source === 'sample' && (
+          <p className="text-sm text-gray-500 mb-4">Showing sample components; the component catalog could not be loaded.</p>
+        )}
         <div className="grid lg:grid-cols-2 gap-8 mb-8">
-          <ComponentSelector title="Current Setup" setup={currentSetup} onSetupChange={setCurrentSetup} components={sampleComponents} />
-          <ComponentSelector title="Proposed Setup" setup={proposedSetup} onSetupChange={setProposedSetup} components={sampleComponents} />
+          <ComponentSelector title="Current Setup" setup={currentSetup} onSetupChange={setCurrentSetup} components={components} />
+          <ComponentSelector title="Proposed Setup" setup={proposedSetup} onSetupChange={setProposedSetup} components={components} />
         </div>
 
         <div className="text-center mb-8">
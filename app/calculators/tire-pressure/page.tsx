@@ -2,6 +2,7 @@
 
 import { useState } from 'react'
 import { TirePressureCalculator, TirePressureParams, TirePressureResult } from '@/lib/tire-pressure-calculator'
+import { Standards } from '@/lib/standards'
 import { Gauge, Weight, Bike, Settings, TrendingUp, AlertTriangle, CheckCircle, Info, Droplets, Mountain } from 'lucide-react'
 import { Breadcrumbs } from '@/components/ui/breadcrumbs'
 import { toast } from '@/components/ui/toast'
@@ -155,6 +156,11 @@ export default function TirePressurePage() {
                 <div><label className="block text-sm font-medium text-gray-700 mb-2">Terrain Type</label><select value={params.terrain} onChange={(e) => handleParamChange('terrain', e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">{currentOptions.terrains.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}</select></div>
                 <div><label className="block text-sm font-medium text-gray-700 mb-2">Wheel Size</label><select value={params.wheelDiameter} onChange={(e) => handleParamChange('wheelDiameter', parseInt(e.target.value))} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">{currentOptions.wheelDiameters.map(w => <option key={w.value} value={w.value}>{w.label}</option>)}</select></div>
                 <div className="col-span-2"><label className="block text-sm font-medium text-gray-700 mb-2">Tire Width</label><select value={params.tireWidth} onChange={(e) => handleParamChange('tireWidth', parseInt(e.target.value))} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500">{currentOptions.tireWidths.map(w => <option key={w.value} value={w.value}>{w.label}</option>)}</select></div>
+                <div><label className="block text-sm font-medium text-gray-700 mb-2">Rim Internal Width (mm)</label><input type="number" value={params.rimInternalWidth ?? ''} onChange={(e) => handleParamChange('rimInternalWidth', parseFloat(e.target.value) || undefined)} placeholder="Estimate" className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" min="10" max="45" /></div>
+                <div><label className="block text-sm font-medium text-gray-700 mb-2">Rim Type</label><select value={params.rimType || 'HOOKED'} onChange={(e) => handleParamChange('rimType', e.target.value)} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"><option value="HOOKED">Hooked</option><option value="HOOKLESS">Hookless (max {Standards.HOOKLESS_MAX_PSI} PSI)</option></select></div>
+                {params.rimType === 'HOOKLESS' && <div className="col-span-2"><label className="block text-sm font-medium text-gray-700 mb-2">Tire Hookless-Approved</label><select value={params.tireHooklessApproved === undefined ? '' : String(params.tireHooklessApproved)} onChange={(e) => handleParamChange('tireHooklessApproved', e.target.value === '' ? undefined : e.target.value === 'true')} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"><option value="">Not sure</option><option value="true">Yes, on the tire maker's list</option><option value="false">No</option></select></div>}
+                <div><label className="block text-sm font-medium text-gray-700 mb-2">Rim Max Pressure (PSI)</label><input type="number" value={params.rimMaxPressure ?? ''} onChange={(e) => handleParamChange('rimMaxPressure', parseFloat(e.target.value) || undefined)} placeholder="Optional" className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" /></div>
+                <div><label className="block text-sm font-medium text-gray-700 mb-2">Tire Max Pressure (PSI)</label><input type="number" value={params.tireMaxPressure ?? ''} onChange={(e) => handleParamChange('tireMaxPressure', parseFloat(e.target.value) || undefined)} placeholder="Optional" className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" /></div>
               </div>
             </div>
             <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -3,62 +3,13 @@
 import { useState } from 'react'
 import { CheckCircle, AlertTriangle, XCircle, Info, Search, Filter, RotateCcw } from 'lucide-react'
 
-// Type definitions
-interface Component {
-  id: string
-  manufacturer: string
-  model: string
-  year: number
-  weightGrams: number
-  msrp: number
-  category: ComponentCategory
-  cassette?: {
-    speeds: number
-    cogs: number[]
-    freehubType: string
-  }
-  hub?: {
-    spacing: number
-    freehubTypes: string[]
-  }
-  derailleur?: {
-    speeds: number
-    maxCog: number
-    capacity: number
-    cageLength: string
-    weightGrams: number // FIXED: Added missing weightGrams
-  }
-  chain?: {
-    speeds: number
-    material: string
-  }
-}
-
-type ComponentCategory = 'CASSETTE' | 'HUB' | 'DERAILLEUR' | 'CRANKSET' | 'CHAIN'
-
-interface CompatibilityIssue {
-  message: string
-  severity: 'warning' | 'critical'
-  components: string[]
-  estimatedCost: number
-}
+import { BuildValidator, CompatibilityEngine } from '@/lib/compatibility'
+import { Standards } from '@/lib/standards'
+import { useComponentCatalog } from '@/lib/use-component-catalog'
+import { Component, ComponentCategory, CompatibilityStatus } from '@/types/gear-calculator'
+import { BuildPosition, BuildValidation } from '@/types/compatibility'
 
-interface CompatibilitySolution {
-  message: string
-  cost: number
-  difficulty: 'easy' | 'medium' | 'hard'
-}
-
-interface CompatibilityStatus {
-  status: string
-  issues: CompatibilityIssue[]
-  solutions: CompatibilitySolution[]
-  confidence: number
-  isCompatible: boolean
-  overallStatus: string
-}
-
-// FIXED: Complete sample components with all required data
+// Shown until the component catalog loads, and when it can't be reached
 const sampleComponents: Component[] = [
   {
     id: 'cassette-1',
@@ -71,7 +22,7 @@ const sampleComponents: Component[] = [
     cassette: {
       speeds: 12,
       cogs: [11,13,15,17,19,22,25,28,32,36,42,50],
-      freehubType: 'HG'
+      freehubType: 'SHIMANO_HG'
     }
   },
   {
@@ -85,7 +36,7 @@ const sampleComponents: Component[] = [
     cassette: {
       speeds: 12,
       cogs: [10,12,14,16,18,21,24,28,32,36,40,45],
-      freehubType: 'HG'
+      freehubType: 'SHIMANO_HG'
     }
   },
   {
@@ -99,7 +50,7 @@ const sampleComponents: Component[] = [
     cassette: {
       speeds: 12,
       cogs: [10,12,14,16,18,21,24,28,32,36,42,52],
-      freehubType: 'XD'
+      freehubType: 'SRAM_XD'
     }
   },
   {
@@ -111,8 +62,12 @@ const sampleComponents: Component[] = [
     msrp: 125.00,
     category: 'HUB',
     hub: {
-      spacing: 142,
-      freehubTypes: ['HG', 'XD', 'Microspline']
+      rearSpacing: 142,
+      axleType: 'TA_142x12',
+      endCapConversions: [{ type: 'QR_135', cost: 35 }, { type: 'TA_135x12', cost: 35 }],
+      freehubTypes: ['SHIMANO_HG'],
+      rotorMount: 'CENTER_LOCK',
+      swappableFreehubs: [{ type: 'SRAM_XD', cost: 60 }, { type: 'MICRO_SPLINE', cost: 90 }]
     }
   },
   {
@@ -124,8 +79,10 @@ const sampleComponents: Component[] = [
     msrp: 160.00,
     category: 'HUB',
     hub: {
-      spacing: 142,
-      freehubTypes: ['HG'] // Only HG - will cause issues with XD cassettes
+      rearSpacing: 142,
+      axleType: 'TA_142x12',
+      freehubTypes: ['SHIMANO_HG'], // Only HG - will cause issues with XD cassettes
+      rotorMount: 'SIX_BOLT'
     }
   },
   {
@@ -137,8 +94,38 @@ const sampleComponents: Component[] = [
     msrp: 400.00,
     category: 'HUB',
     hub: {
-      spacing: 148, // Boost spacing
-      freehubTypes: ['HG', 'XD', 'Microspline']
+      rearSpacing: 148,
+      axleType: 'TA_148x12_BOOST',
+      freehubTypes: ['SHIMANO_HG', 'SRAM_XD', 'MICRO_SPLINE'],
+      rotorMount: 'SIX_BOLT'
+    }
+  },
+  {
+    id: 'freehub-1',
+    manufacturer: 'Hope',
+    model: 'Pro 4 XD Freehub',
+    year: 2022,
+    weightGrams: 42,
+    msrp: 75.00,
+    category: 'FREEHUB_BODY',
+    freehubBody: {
+      type: 'SRAM_XD',
+      hubManufacturer: 'Hope',
+      hubModels: ['Pro 4']
+    }
+  },
+  {
+    id: 'freehub-2',
+    manufacturer: 'DT Swiss',
+    model: '350 Micro Spline Freehub',
+    year: 2023,
+    weightGrams: 60,
+    msrp: 89.90,
+    category: 'FREEHUB_BODY',
+    freehubBody: {
+      type: 'MICRO_SPLINE',
+      hubManufacturer: 'DT Swiss',
+      hubModels: ['350']
     }
   },
   {
@@ -154,7 +141,7 @@ const sampleComponents: Component[] = [
       maxCog: 45,
       capacity: 35,
       cageLength: 'LONG',
-      weightGrams: 265
+      actuation: 'SHIMANO_MTB_12'
     }
   },
   {
@@ -170,7 +157,7 @@ const sampleComponents: Component[] = [
       maxCog: 52,
       capacity: 42,
       cageLength: 'LONG',
-      weightGrams: 280
+      actuation: 'SRAM_EXACT_ACTUATION'
     }
   },
   {
@@ -186,7 +173,46 @@ const sampleComponents: Component[] = [
       maxCog: 42,
       capacity: 32,
       cageLength: 'MEDIUM',
-      weightGrams: 290
+      actuation: 'SHIMANO_MTB_12'
+    }
+  },
+  {
+    id: 'shifter-1',
+    manufacturer: 'Shimano',
+    model: 'XT M8100 Shifter',
+    year: 2021,
+    weightGrams: 115,
+    msrp: 60.00,
+    category: 'SHIFTER',
+    shifter: {
+      speeds: 12,
+      actuation: 'SHIMANO_MTB_12'
+    }
+  },
+  {
+    id: 'shifter-2',
+    manufacturer: 'SRAM',
+    model: 'GX Eagle Trigger',
+    year: 2022,
+    weightGrams: 122,
+    msrp: 45.00,
+    category: 'SHIFTER',
+    shifter: {
+      speeds: 12,
+      actuation: 'SRAM_EXACT_ACTUATION'
+    }
+  },
+  {
+    id: 'shifter-3',
+    manufacturer: 'SRAM',
+    model: 'Eagle AXS Controller',
+    year: 2022,
+    weightGrams: 57,
+    msrp: 200.00,
+    category: 'SHIFTER',
+    shifter: {
+      speeds: 12,
+      actuation: 'SRAM_AXS'
     }
   },
   {
@@ -214,18 +240,329 @@ const sampleComponents: Component[] = [
       speeds: 12,
       material: 'Steel'
     }
+  },
+  {
+    id: 'frame-1',
+    manufacturer: 'Santa Cruz',
+    model: 'Hightower',
+    year: 2023,
+    weightGrams: 2900,
+    msrp: 3200.00,
+    category: 'FRAME',
+    frame: {
+      bbShell: 'BSA_73',
+      axleType: 'TA_148x12_BOOST',
+      brakeMount: { type: 'POST_MOUNT', nativeRotor: 180, maxRotor: 203 },
+      tireClearance: [{ wheelSize: 29, maxTireWidth: 66, points: { CHAINSTAY: 78, YOKE: 74 } }]
+    }
+  },
+  {
+    id: 'frame-2',
+    manufacturer: 'Canyon',
+    model: 'Grizl',
+    year: 2023,
+    weightGrams: 1150,
+    msrp: 1800.00,
+    category: 'FRAME',
+    frame: {
+      bbShell: 'BB86',
+      axleType: 'TA_142x12',
+      brakeMount: { type: 'FLAT_MOUNT', nativeRotor: 140, maxRotor: 160 },
+      tireClearance: [
+        { wheelSize: 28, maxTireWidth: 50, points: { CHAINSTAY: 60, SEATSTAY: 64 } },
+        { wheelSize: 27.5, maxTireWidth: 54, points: { CHAINSTAY: 64, SEATSTAY: 68 } }
+      ]
+    }
+  },
+  {
+    id: 'crankset-1',
+    manufacturer: 'SRAM',
+    model: 'GX Eagle DUB Crank',
+    year: 2022,
+    weightGrams: 625,
+    msrp: 145.00,
+    category: 'CRANKSET',
+    crankset: {
+      chainrings: [32],
+      spindleType: 'DUB',
+      spindleLength: 73,
+      qFactor: 168,
+      chainline: 52
+    }
+  },
+  {
+    id: 'crankset-2',
+    manufacturer: 'Shimano',
+    model: '105 R7100 Crank',
+    year: 2022,
+    weightGrams: 740,
+    msrp: 189.99,
+    category: 'CRANKSET',
+    crankset: {
+      chainrings: [50, 34],
+      spindleType: 'HOLLOWTECH_II',
+      spindleLength: 68,
+      qFactor: 148,
+      chainline: 43.5
+    }
+  },
+  {
+    id: 'bb-1',
+    manufacturer: 'SRAM',
+    model: 'DUB BSA',
+    year: 2022,
+    weightGrams: 77,
+    msrp: 40.00,
+    category: 'BOTTOM_BRACKET',
+    bottomBracket: {
+      shell: 'BSA_73',
+      spindle: 'DUB'
+    }
+  },
+  {
+    id: 'bb-2',
+    manufacturer: 'Shimano',
+    model: 'SM-BB52',
+    year: 2020,
+    weightGrams: 80,
+    msrp: 25.00,
+    category: 'BOTTOM_BRACKET',
+    bottomBracket: {
+      shell: 'BSA_73',
+      spindle: 'HOLLOWTECH_II'
+    }
+  },
+  {
+    id: 'tire-1',
+    manufacturer: 'Maxxis',
+    model: 'Minion DHF 29x2.5',
+    year: 2021,
+    weightGrams: 1050,
+    msrp: 69.99,
+    category: 'TIRE',
+    tire: {
+      width: 2.5,
+      diameter: 29
+    }
+  },
+  {
+    id: 'tire-2',
+    manufacturer: 'WTB',
+    model: 'Resolute 700x42',
+    year: 2022,
+    weightGrams: 520,
+    msrp: 54.95,
+    category: 'TIRE',
+    tire: {
+      width: 42,
+      diameter: 28,
+      etrto: '42-622',
+      hooklessApproved: true,
+      maxPressure: 60
+    }
+  },
+  {
+    id: 'wheel-1',
+    manufacturer: 'Zipp',
+    model: '303 S',
+    year: 2022,
+    weightGrams: 1530,
+    msrp: 1000.00,
+    category: 'WHEEL',
+    wheel: {
+      diameter: 28,
+      bsd: 622,
+      width: 23,
+      rimType: 'HOOKLESS',
+      etrto: '622x23',
+      maxPressure: 72.5
+    }
+  },
+  {
+    id: 'wheel-2',
+    manufacturer: 'DT Swiss',
+    model: 'M1900 29',
+    year: 2021,
+    weightGrams: 1850,
+    msrp: 299.99,
+    category: 'WHEEL',
+    wheel: {
+      diameter: 29,
+      bsd: 622,
+      width: 30,
+      rimType: 'HOOKED',
+      etrto: '622x30',
+      hub: { rearSpacing: 148, axleType: 'TA_148x12_BOOST', freehubTypes: ['SHIMANO_HG', 'MICRO_SPLINE'] }
+    }
+  },
+  {
+    id: 'fork-1',
+    manufacturer: 'Fox',
+    model: '36 Factory',
+    year: 2022,
+    weightGrams: 2050,
+    msrp: 1100.00,
+    category: 'FORK',
+    fork: {
+      axleType: 'TA_110x15_BOOST',
+      steererDiameter: 28.6,
+      brakeMount: { type: 'POST_MOUNT', nativeRotor: 180, maxRotor: 230 },
+      tireClearance: [{ wheelSize: 29, maxTireWidth: 66, points: { ARCH: 82, CROWN: 80 } }]
+    }
+  },
+  {
+    id: 'brake-1',
+    manufacturer: 'Shimano',
+    model: 'XT M8120',
+    year: 2021,
+    weightGrams: 340,
+    msrp: 150.00,
+    category: 'BRAKE',
+    brake: {
+      mount: 'POST_MOUNT',
+      position: 'FRONT',
+      padShape: 'SHIMANO_D03S'
+    }
+  },
+  {
+    id: 'brake-2',
+    manufacturer: 'Shimano',
+    model: 'XT M8120 Rear',
+    year: 2021,
+    weightGrams: 350,
+    msrp: 150.00,
+    category: 'BRAKE',
+    brake: {
+      mount: 'POST_MOUNT',
+      position: 'REAR',
+      padShape: 'SHIMANO_D03S'
+    }
+  },
+  {
+    id: 'rotor-1',
+    manufacturer: 'Shimano',
+    model: 'RT-MT800 203mm',
+    year: 2021,
+    weightGrams: 175,
+    msrp: 65.00,
+    category: 'ROTOR',
+    rotor: {
+      diameter: 203,
+      mount: 'CENTER_LOCK',
+      resinOnly: true
+    }
+  },
+  {
+    id: 'rotor-2',
+    manufacturer: 'SRAM',
+    model: 'Centerline 180mm',
+    year: 2022,
+    weightGrams: 145,
+    msrp: 45.00,
+    category: 'ROTOR',
+    rotor: {
+      diameter: 180,
+      mount: 'SIX_BOLT'
+    }
+  },
+  {
+    id: 'brake-adapter-1',
+    manufacturer: 'Shimano',
+    model: 'SM-MA-F203P/PM',
+    year: 2020,
+    weightGrams: 45,
+    msrp: 28.00,
+    category: 'BRAKE_ADAPTER',
+    brakeAdapter: {
+      frameMount: 'POST_MOUNT',
+      caliperMount: 'POST_MOUNT',
+      fromRotor: 180,
+      toRotor: 203
+    }
+  },
+  {
+    id: 'brake-pad-1',
+    manufacturer: 'Shimano',
+    model: 'D03S Metal',
+    year: 2021,
+    weightGrams: 20,
+    msrp: 25.00,
+    category: 'BRAKE_PAD',
+    brakePad: {
+      shape: 'SHIMANO_D03S',
+      compound: 'METALLIC'
+    }
+  },
+  {
+    id: 'brake-pad-2',
+    manufacturer: 'Shimano',
+    model: 'D03S Resin',
+    year: 2021,
+    weightGrams: 18,
+    msrp: 22.00,
+    category: 'BRAKE_PAD',
+    brakePad: {
+      shape: 'SHIMANO_D03S',
+      compound: 'RESIN'
+    }
+  },
+  {
+    id: 'handlebar-1',
+    manufacturer: 'Race Face',
+    model: 'Next R 35',
+    year: 2022,
+    weightGrams: 225,
+    msrp: 150.00,
+    category: 'HANDLEBAR',
+    handlebar: {
+      clampDiameter: 35,
+      width: 800
+    }
+  },
+  {
+    id: 'handlebar-2',
+    manufacturer: 'Renthal',
+    model: 'FatBar Lite 31.8',
+    year: 2021,
+    weightGrams: 280,
+    msrp: 80.00,
+    category: 'HANDLEBAR',
+    handlebar: {
+      clampDiameter: 31.8,
+      width: 780
+    }
+  },
+  {
+    id: 'stem-1',
+    manufacturer: 'Race Face',
+    model: 'Turbine R 35',
+    year: 2022,
+    weightGrams: 140,
+    msrp: 90.00,
+    category: 'STEM',
+    stem: {
+      barClamp: 35,
+      steererClamp: 28.6,
+      length: 40
+    }
   }
 ]
 
 export default function CompatibilityPage() {
+  const { components: catalog, source, loading: catalogLoading } = useComponentCatalog(sampleComponents)
   const [selectedComponents, setSelectedComponents] = useState<Component[]>([])
   const [compatibilityResults, setCompatibilityResults] = useState<CompatibilityStatus | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedCategory, setSelectedCategory] = useState<ComponentCategory | 'ALL'>('ALL')
   const [isLoading, setIsLoading] = useState(false)
+  const [mudClearance, setMudClearance] = useState(false)
+  const [buildMode, setBuildMode] = useState(false)
+  const [positions, setPositions] = useState<Record<string, BuildPosition>>({})
+  const [buildResults, setBuildResults] = useState<BuildValidation | null>(null)
+  const [checkedLocally, setCheckedLocally] = useState(false)
 
   // FIXED: Complete filtering logic
-  const filteredComponents = sampleComponents.filter(component => {
+  const filteredComponents = catalog.filter(component => {
     const matchesSearch = component.manufacturer.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          component.model.toLowerCase().includes(searchTerm.toLowerCase())
     const matchesCategory = selectedCategory === 'ALL' || component.category === selectedCategory
@@ -235,8 +572,10 @@ export default function CompatibilityPage() {
   })
 
   const handleComponentSelect = (component: Component) => {
-    // Check if we already have a component of this category
-    const existingIndex = selectedComponents.findIndex(c => c.category === component.category)
+    // Check if we already have a component of this category; a build takes one per end for wheel parts
+    const sameCategory = selectedComponents.filter(c => c.category === component.category)
+    const limit = buildMode && BuildValidator.PAIRED_CATEGORIES.includes(component.category) ? 2 : 1
+    const existingIndex = sameCategory.length >= limit ? selectedComponents.indexOf(sameCategory[sameCategory.length - 1]) : -1
     
     let newSelectedComponents
     if (existingIndex >= 0) {
@@ -270,126 +609,62 @@ export default function CompatibilityPage() {
   const clearAllComponents = () => {
     setSelectedComponents([])
     setCompatibilityResults(null)
+    setBuildResults(null)
+    setPositions({})
+  }
+
+  const toggleBuildMode = (enabled: boolean) => {
+    setBuildMode(enabled)
+    setBuildResults(null)
+    if (selectedComponents.length >= 2) checkCompatibility(selectedComponents, mudClearance, enabled)
   }
 
-  const checkCompatibility = (components: Component[] = selectedComponents) => {
+  // Auto (inferred from the part), then front, then rear
+  const cyclePosition = (componentId: string) => {
+    const next: Record<string, BuildPosition> = { ...positions }
+    if (!positions[componentId]) next[componentId] = 'FRONT'
+    else if (positions[componentId] === 'FRONT') next[componentId] = 'REAR'
+    else delete next[componentId]
+    setPositions(next)
+    if (selectedComponents.length >= 2) checkCompatibility(selectedComponents, mudClearance, true, next)
+  }
+
+  const checkCompatibility = async (components: Component[] = selectedComponents, mud = mudClearance, build = buildMode, partPositions = positions) => {
     if (components.length < 2) {
       alert('Please select at least 2 components to check compatibility')
       return
     }
 
     setIsLoading(true)
-    
-    // Simulate API call delay
-    setTimeout(() => {
-      const issues: CompatibilityIssue[] = []
-      const solutions: CompatibilitySolution[] = []
-
-      // Find cassette and hub components
-      const cassette = components.find(c => c.category === 'CASSETTE')
-      const hub = components.find(c => c.category === 'HUB')
-      const derailleur = components.find(c => c.category === 'DERAILLEUR')
-      const chain = components.find(c => c.category === 'CHAIN')
-
-      // Check cassette/hub compatibility
-      if (cassette?.cassette && hub?.hub) {
-        const cassetteFreehub = cassette.cassette.freehubType
-        const hubFreehubs = hub.hub.freehubTypes
-
-        if (!hubFreehubs.includes(cassetteFreehub)) {
-          issues.push({
-            message: `${cassette.manufacturer} ${cassette.model} requires ${cassetteFreehub} freehub, but ${hub.manufacturer} ${hub.model} only supports ${hubFreehubs.join(', ')}`,
-            severity: 'critical',
-            components: [cassette.manufacturer + ' ' + cassette.model, hub.manufacturer + ' ' + hub.model],
-            estimatedCost: 150
-          })
-
-          solutions.push({
-            message: 'Replace freehub body with compatible type or choose different cassette',
-            cost: 150,
-            difficulty: 'medium'
-          })
-        }
-      }
-
-      // Check derailleur capacity
-      if (cassette?.cassette && derailleur?.derailleur) {
-        const largestCog = Math.max(...cassette.cassette.cogs)
-        const maxCog = derailleur.derailleur.maxCog
-
-        if (largestCog > maxCog) {
-          issues.push({
-            message: `${derailleur.manufacturer} ${derailleur.model} max capacity is ${maxCog}T, but ${cassette.manufacturer} ${cassette.model} has ${largestCog}T cog`,
-            severity: 'critical',
-            components: [derailleur.manufacturer + ' ' + derailleur.model, cassette.manufacturer + ' ' + cassette.model],
-            estimatedCost: 200
-          })
-
-          solutions.push({
-            message: 'Upgrade to derailleur with higher capacity or choose cassette with smaller largest cog',
-            cost: 200,
-            difficulty: 'medium'
-          })
-        }
-      }
-
-      // Check chain/cassette speed compatibility
-      if (cassette?.cassette && chain?.chain) {
-        if (cassette.cassette.speeds !== chain.chain.speeds) {
-          issues.push({
-            message: `${chain.manufacturer} ${chain.model} is ${chain.chain.speeds}-speed but ${cassette.manufacturer} ${cassette.model} is ${cassette.cassette.speeds}-speed`,
-            severity: 'critical',
-            components: [chain.manufacturer + ' ' + chain.model, cassette.manufacturer + ' ' + cassette.model],
-            estimatedCost: 50
-          })
-
-          solutions.push({
-            message: 'Replace chain with correct speed rating to match cassette',
-            cost: 50,
-            difficulty: 'easy'
-          })
-        }
-      }
+    const clearanceMargin = mud ? Standards.TIRE_CLEARANCE_MARGINS.mud : Standards.TIRE_CLEARANCE_MARGINS.dry
 
-      // Check hub spacing compatibility
-      if (hub?.hub && hub.hub.spacing === 148) {
-        const hasBoostComponents = components.some(c => 
-          c.manufacturer.toLowerCase().includes('boost') || 
-          c.model.toLowerCase().includes('boost')
-        )
-        
-        if (!hasBoostComponents && components.length > 2) {
-          issues.push({
-            message: `${hub.manufacturer} ${hub.model} uses 148mm Boost spacing - ensure frame and other components are Boost compatible`,
-            severity: 'warning',
-            components: [hub.manufacturer + ' ' + hub.model],
-            estimatedCost: 0
-          })
-
-          solutions.push({
-            message: 'Verify frame has 148mm Boost rear spacing or use 142mm hub',
-            cost: 0,
-            difficulty: 'easy'
-          })
-        }
-      }
+    const parts = build ? components.map(component => ({ component, position: partPositions[component.id] })) : undefined
 
-      const isCompatible = issues.filter(i => i.severity === 'critical').length === 0
-      const hasCriticalIssues = issues.some(issue => issue.severity === 'critical')
-      const overallStatus = isCompatible ? 'compatible' : 
-                           hasCriticalIssues ? 'incompatible' : 'warning'
-
-      setCompatibilityResults({
-        status: overallStatus,
-        issues,
-        solutions,
-        confidence: Math.max(0, 100 - (issues.length * 15)),
-        isCompatible,
-        overallStatus
+    // The API adds stored compatibility records and its own catalog; without it the local rules still give an answer
+    try {
+      const response = await fetch('/api/compatibility', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(parts ? { parts, clearanceMargin } : { components, clearanceMargin })
       })
-      
+      if (!response.ok) throw new Error(`Compatibility API returned ${response.status}`)
+      const result = await response.json()
+      setBuildResults(parts ? result : null)
+      setCompatibilityResults(parts ? result.status : result)
+      setCheckedLocally(false)
+    } catch {
+      setCheckedLocally(true)
+      if (parts) {
+        const result = BuildValidator.validate(parts, { catalog, clearanceMargin })
+        setBuildResults(result)
+        setCompatibilityResults(result.status)
+      } else {
+        setBuildResults(null)
+        setCompatibilityResults(CompatibilityEngine.checkComponents(components, catalog, { clearanceMargin }))
+      }
+    } finally {
       setIsLoading(false)
-    }, 1000)
+    }
   }
 
   const getCompatibilityIcon = (status: string) => {
@@ -425,12 +700,17 @@ export default function CompatibilityPage() {
       case 'HUB': return '🔧'
       case 'DERAILLEUR': return '🔗'
       case 'CHAIN': return '⛓️'
+      case 'SHIFTER': return '🎚️'
+      case 'BRAKE': case 'ROTOR': return '🛑'
       case 'CRANKSET': return '🚴'
+      case 'FRAME': return '🚲'
+      case 'TIRE': return '🛞'
+      case 'HANDLEBAR': case 'STEM': return '🎯'
       default: return '🔧'
     }
   }
 
-  const categories: (ComponentCategory | 'ALL')[] = ['ALL', 'CASSETTE', 'HUB', 'DERAILLEUR', 'CHAIN', 'CRANKSET']
+  const categories: (ComponentCategory | 'ALL')[] = ['ALL', 'CASSETTE', 'HUB', 'DERAILLEUR', 'SHIFTER', 'CHAIN', 'CRANKSET', 'BOTTOM_BRACKET', 'FRAME', 'FORK', 'WHEEL', 'TIRE', 'BRAKE', 'ROTOR', 'BRAKE_ADAPTER', 'BRAKE_PAD', 'HANDLEBAR', 'STEM']
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -444,6 +724,9 @@ export default function CompatibilityPage() {
           <p className="text-lg text-gray-600 max-w-2xl mx-auto">
             Select components to check compatibility and get instant feedback on potential issues.
           </p>
+          {!catalogLoading && source === 'sample' && (
+            <p className="text-sm text-gray-500 mt-2">Showing sample components; the component catalog could not be loaded.</p>
+          )}
         </div>
 
         <div className="grid lg:grid-cols-3 gap-8">
@@ -453,6 +736,15 @@ export default function CompatibilityPage() {
             <div className="bg-white rounded-lg shadow-sm border p-6">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-semibold text-gray-900">Select Components</h2>
+                <label className="flex items-center text-sm text-gray-600 ml-auto mr-4">
+                  <input
+                    type="checkbox"
+                    checked={buildMode}
+                    onChange={(e) => toggleBuildMode(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Validate whole build
+                </label>
                 {selectedComponents.length > 0 && (
                   <button
                     onClick={clearAllComponents}
@@ -476,7 +768,7 @@ export default function CompatibilityPage() {
                     className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent"
                   />
                 </div>
-                <div className="flex gap-2">
+                <div className="flex flex-wrap gap-2">
                   {categories.map((category) => (
                     <button
                       key={category}
@@ -507,6 +799,15 @@ export default function CompatibilityPage() {
                         <span className="font-medium">{component.manufacturer}</span>
                         <span className="mx-1">•</span>
                         <span>{component.model}</span>
+                        {buildMode && BuildValidator.PAIRED_CATEGORIES.includes(component.category) && (
+                          <button
+                            onClick={() => cyclePosition(component.id)}
+                            className="ml-2 px-2 py-0.5 text-xs rounded bg-white text-primary-700 border border-primary-200"
+                            title="Which end of the bike this part is on"
+                          >
+                            {positions[component.id] ? (positions[component.id] === 'FRONT' ? 'Front' : 'Rear') : 'Auto'}
+                          </button>
+                        )}
                         <button
                           onClick={() => handleComponentRemove(component.id)}
                           className="ml-2 text-primary-600 hover:text-primary-800"
@@ -547,7 +848,7 @@ export default function CompatibilityPage() {
                               <span>{component.cassette.speeds}-speed • {component.cassette.freehubType}</span>
                             )}
                             {component.hub && (
-                              <span>{component.hub.spacing}mm • {component.hub.freehubTypes.join(', ')}</span>
+                              <span>{component.hub.axleType ? Standards.AXLES[component.hub.axleType].label : `${component.hub.rearSpacing}mm`} • {component.hub.freehubTypes.join(', ')}</span>
                             )}
                             {component.derailleur && (
                               <span>Max {component.derailleur.maxCog}T • {component.derailleur.cageLength}</span>
@@ -568,7 +869,19 @@ export default function CompatibilityPage() {
           {/* Results Panel */}
           <div className="lg:col-span-1">
             <div className="bg-white rounded-lg shadow-sm border p-6 sticky top-8">
-              <h2 className="text-xl font-semibold text-gray-900 mb-6">Compatibility Results</h2>
+              <h2 className="text-xl font-semibold text-gray-900 mb-2">Compatibility Results</h2>
+              <label className="flex items-center text-sm text-gray-600 mb-6">
+                <input
+                  type="checkbox"
+                  checked={mudClearance}
+                  onChange={(e) => {
+                    setMudClearance(e.target.checked)
+                    if (selectedComponents.length >= 2) checkCompatibility(selectedComponents, e.target.checked)
+                  }}
+                  className="mr-2"
+                />
+                Mud clearance ({Standards.TIRE_CLEARANCE_MARGINS.mud}mm each side)
+              </label>
               
               {isLoading ? (
                 <div className="text-center py-8">
@@ -588,6 +901,9 @@ export default function CompatibilityPage() {
                       {compatibilityResults.isCompatible ? 'Compatible!' : 'Issues Found'}
                     </h3>
                   </div>
+                  {checkedLocally && (
+                    <p className="text-sm text-gray-500 mb-4">Checked in the browser; stored compatibility records could not be loaded.</p>
+                  )}
 
                   <div className="mb-4">
                     <div className="text-sm text-gray-600 mb-2">Confidence Level</div>
@@ -601,8 +917,35 @@ export default function CompatibilityPage() {
                       ></div>
                     </div>
                     <div className="text-xs text-gray-500 mt-1">{compatibilityResults.confidence}% confident</div>
+                    {compatibilityResults.confidenceBreakdown && compatibilityResults.confidenceBreakdown.length > 0 && (
+                      <details className="mt-2 text-xs text-gray-600">
+                        <summary className="cursor-pointer">Why not 100%?</summary>
+                        <ul className="mt-1 space-y-1">
+                          {compatibilityResults.confidenceBreakdown.map((deduction, index) => (
+                            <li key={index} className="flex justify-between">
+                              <span className="mr-2">{deduction.reason}</span>
+                              <span className="font-medium text-gray-900">-{deduction.points}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                   </div>
 
+                  {compatibilityResults.contradictions && compatibilityResults.contradictions.length > 0 && (
+                    <div className="mb-4 space-y-2">
+                      <h4 className="font-medium text-gray-900">Record conflicts:</h4>
+                      {compatibilityResults.contradictions.map((contradiction, index) => (
+                        <div key={index} className="p-3 bg-white rounded border border-purple-200 text-sm">
+                          <div className="text-gray-900">{contradiction.message}</div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {contradiction.resolvedBy === 'record' ? 'Record applied' : 'Rules applied until the record is verified'}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   {compatibilityResults.issues.length > 0 && (
                     <div className="space-y-3">
                       <h4 className="font-medium text-gray-900">Issues:</h4>
@@ -644,6 +987,28 @@ export default function CompatibilityPage() {
                       ))}
                     </div>
                   )}
+
+                  {buildResults && buildResults.graph.edges.length > 0 && (
+                    <div className="mt-4 space-y-2">
+                      <h4 className="font-medium text-gray-900">Conflicts:</h4>
+                      {buildResults.graph.edges.map((edge, index) => {
+                        const from = buildResults.graph.nodes.find(node => node.id === edge.from)
+                        const to = buildResults.graph.nodes.find(node => node.id === edge.to)
+                        return (
+                          <div key={index} className="p-3 bg-white rounded border text-sm">
+                            <div className="flex items-center justify-between">
+                              <span className="font-medium text-gray-900">{from?.name || edge.from} ↔ {to?.name || edge.to}</span>
+                              <span className={`text-xs font-medium ${
+                                edge.severity === 'critical' ? 'text-red-600' :
+                                edge.severity === 'high' ? 'text-orange-600' : 'text-yellow-700'
+                              }`}>{edge.severity}</span>
+                            </div>
+                            <div className="text-xs text-gray-500 mt-1">{edge.rules.join(', ')}</div>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
                 </div>
               ) : null}
             </div>
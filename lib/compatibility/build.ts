@@ -0,0 +1,225 @@
+// lib/compatibility/build.ts
+// Validates a whole bike: each end is checked as its own setup, then the results are merged
+// with build-wide checks into one status and a graph of which parts conflict.
+
+import { Standards } from '@/lib/standards'
+import { CompatibilityEngine } from '@/lib/compatibility/engine'
+import { componentName } from '@/lib/compatibility/helpers'
+import { CompatibilityIssue, CompatibilityStatus, Component, ComponentCategory } from '@/types/gear-calculator'
+import { BuildPart, BuildPosition, BuildValidation, CompatibilityContext, ConflictEdge, ConflictGraph, ConflictNode } from '@/types/compatibility'
+
+const SEVERITY_RANK: Record<CompatibilityIssue['severity'], number> = { low: 0, medium: 1, high: 2, critical: 3 };
+
+const worst = (a: CompatibilityIssue['severity'], b: CompatibilityIssue['severity']) =>
+  SEVERITY_RANK[a] >= SEVERITY_RANK[b] ? a : b;
+
+export class BuildValidator {
+
+  // One of each per bike end; everything else belongs to the front or rear as listed
+  static PAIRED_CATEGORIES: ComponentCategory[] = ['WHEEL', 'HUB', 'TIRE', 'BRAKE', 'ROTOR', 'BRAKE_ADAPTER', 'BRAKE_PAD'];
+  static FRONT_CATEGORIES: ComponentCategory[] = ['FORK', 'HANDLEBAR', 'STEM'];
+
+  // Parts a complete build needs, by end; drivetrain alternatives are checked separately
+  static REQUIRED: Array<{ category: ComponentCategory; position?: BuildPosition; label: string }> = [
+    { category: 'FRAME', label: 'frame' },
+    { category: 'FORK', label: 'fork' },
+    { category: 'WHEEL', position: 'FRONT', label: 'front wheel' },
+    { category: 'WHEEL', position: 'REAR', label: 'rear wheel' },
+    { category: 'TIRE', position: 'FRONT', label: 'front tire' },
+    { category: 'TIRE', position: 'REAR', label: 'rear tire' },
+    { category: 'BRAKE', position: 'FRONT', label: 'front brake' },
+    { category: 'BRAKE', position: 'REAR', label: 'rear brake' },
+    { category: 'CRANKSET', label: 'crankset' },
+    { category: 'BOTTOM_BRACKET', label: 'bottom bracket' },
+    { category: 'CHAIN', label: 'chain' },
+    { category: 'HANDLEBAR', label: 'handlebar' },
+    { category: 'STEM', label: 'stem' },
+  ];
+
+  static validate(parts: BuildPart[], context: Omit<CompatibilityContext, 'setup'> = {}): BuildValidation {
+    const { ends, buildIssues } = this.placeParts(parts);
+    buildIssues.push(...this.findMissing(ends));
+
+    const results: Record<BuildPosition, CompatibilityStatus> = {
+      FRONT: CompatibilityEngine.check(CompatibilityEngine.buildSetup(ends.FRONT), context),
+      REAR: CompatibilityEngine.check(CompatibilityEngine.buildSetup(ends.REAR), context)
+    };
+    const status = this.merge([results.FRONT, results.REAR], buildIssues);
+
+    return {
+      status,
+      ends: results,
+      graph: this.buildGraph(ends, status.issues)
+    };
+  }
+
+  // Explicit positions first, then what the part itself says (hub axle, brake position)
+  static inferPosition(part: BuildPart): BuildPosition | undefined {
+    if (part.position) return part.position;
+    const component = part.component;
+    const hub = component.hub || component.wheel?.hub;
+    if (hub?.axleType) return Standards.AXLES[hub.axleType].position;
+    if (hub?.rearSpacing) return 'REAR';
+    if (hub?.frontSpacing) return 'FRONT';
+    return component.brake?.position;
+  }
+
+  private static placeParts(parts: BuildPart[]): { ends: Record<BuildPosition, Component[]>; buildIssues: CompatibilityIssue[] } {
+    const ends: Record<BuildPosition, Component[]> = { FRONT: [], REAR: [] };
+    const buildIssues: CompatibilityIssue[] = [];
+    const place = (component: Component, position: BuildPosition) => {
+      // Brake rules pick frame or fork tabs from the caliper's position
+      const placed = component.brake ? { ...component, brake: { ...component.brake, position } } : component;
+      ends[position].push(placed);
+    };
+
+    parts
+      .filter(part => !this.PAIRED_CATEGORIES.includes(part.component.category))
+      .forEach(part => place(part.component, this.FRONT_CATEGORIES.includes(part.component.category) ? 'FRONT' : 'REAR'));
+
+    // A single unplaced wheel part serves both ends, e.g. the same tire front and rear
+    this.PAIRED_CATEGORIES.forEach(category => {
+      const group = parts.filter(part => part.component.category === category);
+      const unplaced: Component[] = [];
+      group.forEach(part => {
+        const position = this.inferPosition(part);
+        if (position) place(part.component, position);
+        else unplaced.push(part.component);
+      });
+      const open = (['FRONT', 'REAR'] as BuildPosition[]).filter(position => !ends[position].some(c => c.category === category));
+      if (unplaced.length === 1 && open.length === 2) {
+        open.forEach(position => place(unplaced[0], position));
+        return;
+      }
+      unplaced.forEach((component, i) => {
+        if (open[i]) place(component, open[i]);
+      });
+    });
+
+    // buildSetup keeps the last part of each category, so extras would go unchecked
+    (['FRONT', 'REAR'] as BuildPosition[]).forEach(position => {
+      const seen: ComponentCategory[] = [];
+      ends[position].forEach(component => {
+        if (!seen.includes(component.category)) {
+          seen.push(component.category);
+          return;
+        }
+        const others = ends[position].filter(c => c.category === component.category && c.id !== component.id);
+        const names = [componentName(component), ...others.map(componentName)];
+        buildIssues.push({
+          type: 'other',
+          severity: 'high',
+          message: `${names.join(' and ')} are both ${this.PAIRED_CATEGORIES.includes(component.category) ? `${position.toLowerCase()} ` : ''}${component.category.toLowerCase().replace(/_/g, ' ')}s; only one can be fitted.`,
+          components: names,
+          componentIds: [component.id, ...others.map(c => c.id)],
+          rule: 'build',
+          estimatedCost: 0
+        });
+      });
+    });
+
+    return { ends, buildIssues };
+  }
+
+  private static findMissing(ends: Record<BuildPosition, Component[]>): CompatibilityIssue[] {
+    const has = (categories: ComponentCategory[], position?: BuildPosition) =>
+      (position ? ends[position] : ends.FRONT.concat(ends.REAR)).some(c => categories.includes(c.category));
+    const missing = this.REQUIRED
+      .filter(required => !has([required.category], required.position))
+      .map(required => required.label);
+    if (!has(['CASSETTE', 'INTERNAL_GEAR_HUB', 'GEARBOX'])) missing.push('cassette or internal gear hub');
+
+    return missing.map(label => ({
+      type: 'other' as const,
+      severity: 'medium' as const,
+      message: `Build has no ${label}, so nothing was checked against it.`,
+      components: [],
+      rule: 'build',
+      estimatedCost: 0
+    }));
+  }
+
+  // Parts shared by both ends are checked twice; each issue, fix and deduction is kept once
+  private static merge(statuses: CompatibilityStatus[], buildIssues: CompatibilityIssue[]): CompatibilityStatus {
+    const unique = <T>(items: T[], key: (item: T) => string): T[] => {
+      const seen: string[] = [];
+      return items.filter(item => {
+        const k = key(item);
+        if (seen.includes(k)) return false;
+        seen.push(k);
+        return true;
+      });
+    };
+    const all = <T>(pick: (status: CompatibilityStatus) => T[] | undefined): T[] =>
+      statuses.reduce((list: T[], status) => list.concat(pick(status) || []), []);
+
+    const issues = unique(all(s => s.issues), i => `${i.rule}|${i.message}`).concat(buildIssues);
+    const solutions = unique(all(s => s.solutions), s => `${s.rule}|${s.message}`);
+    const contradictions = unique(all(s => s.contradictions), c => c.recordId);
+
+    // Provenance was capped per end; cap it again across the build
+    const deductions = unique(all(s => s.confidenceBreakdown), d => `${d.source}|${d.reason}`);
+    let budget = CompatibilityEngine.MAX_PROVENANCE_DEDUCTION;
+    const breakdown = deductions
+      .filter(d => d.source === 'issue')
+      .concat(buildIssues.map(issue => ({
+        source: 'issue' as const,
+        reason: `${issue.severity} build issue: ${issue.message}`,
+        points: CompatibilityEngine.SEVERITY_DEDUCTIONS[issue.severity],
+        componentIds: issue.componentIds
+      })))
+      .concat(deductions
+        .filter(d => d.source !== 'issue')
+        .map(d => {
+          const points = Math.min(d.points, budget);
+          budget -= points;
+          return { ...d, points };
+        })
+        .filter(d => d.points > 0));
+
+    const status = issues.some(i => i.severity === 'critical') ? 'incompatible' : issues.length > 0 ? 'warning' : 'compatible';
+    return {
+      isCompatible: status !== 'incompatible',
+      status,
+      overallStatus: status,
+      issues,
+      solutions: CompatibilityEngine.rankSolutions(solutions),
+      confidence: Math.max(0, 100 - breakdown.reduce((sum, d) => sum + d.points, 0)),
+      confidenceBreakdown: breakdown,
+      contradictions
+    };
+  }
+
+  // Every issue naming two or more parts links each pair of them
+  private static buildGraph(ends: Record<BuildPosition, Component[]>, issues: CompatibilityIssue[]): ConflictGraph {
+    const nodes: ConflictNode[] = [];
+    (['FRONT', 'REAR'] as BuildPosition[]).forEach(position => ends[position].forEach(component => {
+      const node = nodes.find(n => n.id === component.id);
+      if (node) node.positions.push(position);
+      else nodes.push({ id: component.id, name: componentName(component), category: component.category, positions: [position] });
+    }));
+
+    const edges: ConflictEdge[] = [];
+    issues.forEach(issue => {
+      const ids = issue.componentIds || [];
+      ids.forEach(id => {
+        const node = nodes.find(n => n.id === id);
+        if (node) node.severity = node.severity ? worst(node.severity, issue.severity) : issue.severity;
+      });
+      ids.forEach((a, i) => ids.slice(i + 1).forEach(b => {
+        const [from, to] = [a, b].sort();
+        const edge = edges.find(e => e.from === from && e.to === to);
+        const rule = issue.rule || 'unknown';
+        if (!edge) {
+          edges.push({ from, to, severity: issue.severity, rules: [rule], messages: [issue.message] });
+          return;
+        }
+        edge.severity = worst(edge.severity, issue.severity);
+        if (!edge.rules.includes(rule)) edge.rules.push(rule);
+        edge.messages.push(issue.message);
+      }));
+    });
+
+    return { nodes, edges: edges.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]) };
+  }
+}
@@ -0,0 +1,317 @@
+// lib/compatibility/engine.ts
+// Runs every registered rule whose categories are present in a setup and merges the results.
+
+import { BikeSetup, CompatibilityContradiction, CompatibilityIssue, CompatibilitySolution, CompatibilityStatus, Component, ComponentCategory, ConfidenceDeduction } from '@/types/gear-calculator'
+import { CompatibilityContext, CompatibilityRecord, CompatibilityRule } from '@/types/compatibility'
+import { componentName, createSolution } from '@/lib/compatibility/helpers'
+
+export class CompatibilityEngine {
+
+  private static rules: CompatibilityRule[] = [];
+
+  // Points taken off confidence per issue, by severity
+  static readonly SEVERITY_DEDUCTIONS: Record<CompatibilityIssue['severity'], number> = {
+    critical: 40,
+    high: 20,
+    medium: 10,
+    low: 3
+  };
+  static readonly UNVERIFIED_RECORD_DEDUCTION = 3; // a stored pairing nobody has confirmed
+  static readonly MISSING_RECORD_DEDUCTION = 5; // checked from spec data alone
+  static readonly UNVERIFIED_WEIGHT_DEDUCTION = 1;
+  static readonly MISSING_SPEC_DEDUCTION = 5; // a part without the specs its rules read
+  static readonly MAX_PROVENANCE_DEDUCTION = 30; // data gaps alone never turn a clean result red
+
+  // Specs each category's rules can't run without; catalog parts often lack them (see component-catalog.ts)
+  static readonly SPEC_REQUIREMENTS: Partial<Record<ComponentCategory, { data: string; has: (component: Component) => boolean }>> = {
+    FRAME: { data: 'frame', has: c => !!c.frame },
+    FORK: { data: 'fork', has: c => !!c.fork },
+    BRAKE: { data: 'brake', has: c => !!c.brake },
+    ROTOR: { data: 'rotor', has: c => !!c.rotor },
+    BRAKE_ADAPTER: { data: 'adapter', has: c => !!c.brakeAdapter },
+    BRAKE_PAD: { data: 'pad', has: c => !!c.brakePad },
+    BOTTOM_BRACKET: { data: 'bottom bracket', has: c => !!c.bottomBracket },
+    CRANKSET: { data: 'spindle', has: c => !!c.crankset?.spindleType },
+    WHEEL: { data: 'rim type', has: c => !!c.wheel?.rimType },
+    DERAILLEUR: { data: 'actuation', has: c => !!c.derailleur?.actuation },
+    SHIFTER: { data: 'shifter', has: c => !!c.shifter }
+  };
+
+  // Registering a rule with an existing id replaces it
+  static register(rule: CompatibilityRule): void {
+    this.rules = this.rules.filter(r => r.id !== rule.id).concat(rule);
+  }
+
+  static unregister(id: string): void {
+    this.rules = this.rules.filter(r => r.id !== id);
+  }
+
+  static getRules(): CompatibilityRule[] {
+    return this.rules.slice();
+  }
+
+  // Catalog categories that could fix these issues, so callers can load only those
+  static getSuggestedCategories(issues: CompatibilityIssue[]): ComponentCategory[] {
+    const categories: ComponentCategory[] = [];
+    this.rules
+      .filter(rule => issues.some(issue => issue.rule === rule.id))
+      .forEach(rule => (rule.suggests || []).forEach(category => {
+        if (!categories.includes(category)) categories.push(category);
+      }));
+    return categories;
+  }
+
+  static check(setup: BikeSetup, context: Omit<CompatibilityContext, 'setup'> = {}): CompatibilityStatus {
+    const present = this.getCategories(setup);
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    const checked: Component[][] = [];
+
+    this.rules.forEach(rule => {
+      const applies = rule.match === 'any'
+        ? rule.categories.some(category => present.includes(category))
+        : rule.categories.every(category => present.includes(category));
+      if (!applies) return;
+      const result = rule.check({ ...context, setup });
+      checked.push(this.getComponents(setup).filter(c => rule.categories.includes(c.category)));
+      issues.push(...result.issues.map(issue => ({ ...issue, rule: issue.rule || rule.id })));
+
+      // Concrete parts from the catalog replace the rule's generic advice when any are found
+      let ruleSolutions = result.solutions;
+      const catalog = context.catalog;
+      if (catalog && rule.solve && result.issues.length > 0) {
+        const fixes: CompatibilitySolution[] = [];
+        result.issues.forEach(issue => fixes.push(...rule.solve!(issue, { ...context, setup, catalog })));
+        if (fixes.length > 0) ruleSolutions = fixes;
+      }
+      solutions.push(...ruleSolutions.map(solution => ({ ...solution, rule: solution.rule || rule.id })));
+    });
+
+    const records = context.records || [];
+    const reconciled = this.applyRecords(setup, issues, solutions, records);
+    const status = reconciled.issues.some(i => i.severity === 'critical') ? 'incompatible' : reconciled.issues.length > 0 ? 'warning' : 'compatible';
+    const confidenceBreakdown = this.scoreConfidence(setup, reconciled.issues, checked, records);
+    return {
+      isCompatible: status !== 'incompatible',
+      status,
+      overallStatus: status,
+      issues: reconciled.issues,
+      solutions: this.rankSolutions(reconciled.solutions),
+      confidence: Math.max(0, 100 - confidenceBreakdown.reduce((sum, d) => sum + d.points, 0)),
+      confidenceBreakdown,
+      contradictions: reconciled.contradictions
+    };
+  }
+
+  // Stored pairings add their warnings and required parts; where they disagree with the rules a verified record wins
+  private static applyRecords(setup: BikeSetup, computedIssues: CompatibilityIssue[], computedSolutions: CompatibilitySolution[], records: CompatibilityRecord[]) {
+    const components = this.getComponents(setup);
+    const issues = computedIssues.slice();
+    const solutions = computedSolutions.slice();
+    const contradictions: CompatibilityContradiction[] = [];
+    const overridden: CompatibilityIssue[] = [];
+
+    records.forEach(record => {
+      const from = components.find(c => c.id === record.componentFromId);
+      const to = components.find(c => c.id === record.componentToId);
+      if (!from || !to) return;
+
+      const names = [componentName(from), componentName(to)];
+      const componentIds = [from.id, to.id];
+      const blocking = computedIssues.filter(issue => issue.severity === 'critical'
+        && !!issue.componentIds && issue.componentIds.includes(from.id) && issue.componentIds.includes(to.id));
+      const rules = blocking.map(issue => issue.rule || 'unknown').filter((rule, i, all) => all.indexOf(rule) === i);
+      const label = record.verified ? 'verified record' : 'unverified record';
+
+      if (record.compatible && blocking.length > 0) {
+        contradictions.push({
+          recordId: record.id,
+          componentIds,
+          recorded: 'compatible',
+          computed: 'incompatible',
+          verified: record.verified,
+          resolvedBy: record.verified ? 'record' : 'rules',
+          rules,
+          message: record.verified
+            ? `A verified record says ${names[0]} works with ${names[1]}; overriding the ${rules.join(', ')} check.`
+            : `An unverified record says ${names[0]} works with ${names[1]}, but the ${rules.join(', ')} check disagrees.`
+        });
+        if (record.verified) overridden.push(...blocking);
+      }
+
+      if (!record.compatible) {
+        if (blocking.length === 0) {
+          contradictions.push({
+            recordId: record.id,
+            componentIds,
+            recorded: 'incompatible',
+            computed: 'compatible',
+            verified: record.verified,
+            resolvedBy: record.verified ? 'record' : 'rules',
+            rules: [],
+            message: `A${record.verified ? ' verified' : 'n unverified'} record says ${names[0]} does not work with ${names[1]}, though no rule catches it.`
+          });
+        }
+        // Unverified exceptions still warn but cannot block a build on their own
+        issues.push({
+          type: 'other',
+          severity: record.verified || blocking.length > 0 ? 'critical' : 'high',
+          message: `${names[0]} and ${names[1]} are recorded as incompatible (${label})${record.warnings.length > 0 ? `: ${record.warnings.join('; ')}` : '.'}`,
+          components: names,
+          componentIds,
+          rule: 'record',
+          estimatedCost: 0
+        });
+      } else {
+        record.warnings.forEach(warning => issues.push({
+          type: 'other',
+          severity: 'medium',
+          message: `${names[0]} with ${names[1]}: ${warning} (${label})`,
+          components: names,
+          componentIds,
+          rule: 'record',
+          estimatedCost: 0
+        }));
+        if (record.requiredParts.length > 0) {
+          issues.push({
+            type: 'other',
+            severity: 'low',
+            message: `${names[0]} works with ${names[1]} only with ${record.requiredParts.join(', ')} (${label}).`,
+            components: names,
+            componentIds,
+            rule: 'record',
+            estimatedCost: 0
+          });
+        }
+      }
+
+      record.requiredParts.forEach(part => solutions.push({
+        ...createSolution('adapter', `Fit ${part}, required to pair ${names[0]} with ${names[1]}.`, 0, 'medium', names, record.verified ? 95 : 75),
+        rule: 'record'
+      }));
+    });
+
+    // Drop overridden issues, and the fixes of any rule left with nothing to fix
+    const remaining = issues.filter(issue => overridden.indexOf(issue) === -1);
+    return {
+      issues: remaining,
+      solutions: solutions.filter(solution => remaining.some(issue => issue.rule === solution.rule)),
+      contradictions
+    };
+  }
+
+  // Convenience for pages that work with a flat list of parts rather than a setup
+  static checkComponents(components: Component[], catalog?: Component[], options: Omit<CompatibilityContext, 'setup' | 'catalog'> = {}): CompatibilityStatus {
+    return this.check(this.buildSetup(components), { ...options, catalog });
+  }
+
+  // Each issue costs its severity; missing specs, pairs only checked against spec data and unverified weights cost a little more
+  private static scoreConfidence(setup: BikeSetup, issues: CompatibilityIssue[], checked: Component[][], records: CompatibilityRecord[]): ConfidenceDeduction[] {
+    const deductions: ConfidenceDeduction[] = issues.map(issue => ({
+      source: 'issue' as const,
+      reason: `${issue.severity} ${issue.type} issue: ${issue.message}`,
+      points: this.SEVERITY_DEDUCTIONS[issue.severity],
+      componentIds: issue.componentIds
+    }));
+
+    // Spec gaps go first so the provenance cap never hides them
+    const provenance: ConfidenceDeduction[] = [];
+    this.getComponents(setup).forEach(component => {
+      const requirement = this.SPEC_REQUIREMENTS[component.category];
+      if (!requirement || requirement.has(component)) return;
+      provenance.push({
+        source: 'data',
+        reason: `${componentName(component)} has no ${requirement.data} data, so checks that need it were skipped.`,
+        points: this.MISSING_SPEC_DEDUCTION,
+        componentIds: [component.id]
+      });
+    });
+    const seen: string[] = [];
+    checked.forEach(group => {
+      group.forEach((from, i) => group.slice(i + 1).forEach(to => {
+        const key = [from.id, to.id].sort().join('|');
+        if (seen.includes(key)) return;
+        seen.push(key);
+        const record = records.find(r =>
+          (r.componentFromId === from.id && r.componentToId === to.id) ||
+          (r.componentFromId === to.id && r.componentToId === from.id));
+        if (record?.verified) return;
+        const names = `${from.manufacturer} ${from.model} and ${to.manufacturer} ${to.model}`;
+        provenance.push(record
+          ? { source: 'record', reason: `${names} have a stored pairing that is not yet verified.`, points: this.UNVERIFIED_RECORD_DEDUCTION, componentIds: [from.id, to.id] }
+          : { source: 'record', reason: `${names} were checked from spec data only; no stored pairing exists.`, points: this.MISSING_RECORD_DEDUCTION, componentIds: [from.id, to.id] });
+      }));
+    });
+    this.getComponents(setup)
+      .filter(component => component.weightGrams !== undefined && !component.verifiedWeight)
+      .forEach(component => provenance.push({
+        source: 'data',
+        reason: `${component.manufacturer} ${component.model} weight is a listed figure, not a measured one.`,
+        points: this.UNVERIFIED_WEIGHT_DEDUCTION,
+        componentIds: [component.id]
+      }));
+
+    // Provenance is capped by trimming from the end so the listed points still add up
+    let budget = this.MAX_PROVENANCE_DEDUCTION;
+    provenance.forEach(deduction => {
+      const points = Math.min(deduction.points, budget);
+      budget -= points;
+      if (points > 0) deductions.push({ ...deduction, points });
+    });
+    return deductions;
+  }
+
+  // Cheapest first, most reliable breaking ties; the same part suggested twice is listed once
+  static rankSolutions(solutions: CompatibilitySolution[]): CompatibilitySolution[] {
+    const seen = new Set<string>();
+    return solutions
+      .filter(solution => {
+        if (!solution.componentIds) return true;
+        const key = `${solution.type}:${solution.componentIds.join(',')}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .sort((a, b) => a.cost - b.cost || b.reliability - a.reliability);
+  }
+
+  static buildSetup(components: Component[]): BikeSetup {
+    const setup: BikeSetup = {};
+    components.forEach(component => {
+      switch (component.category) {
+        case 'CASSETTE': setup.cassette = component; break;
+        case 'CHAINRING': setup.chainring = component; break;
+        case 'CRANKSET': setup.crankset = component; break;
+        case 'CHAIN': setup.chain = component; break;
+        case 'WHEEL': setup.wheel = component; break;
+        case 'TIRE': setup.tire = component; break;
+        case 'DERAILLEUR': setup.derailleur = component; break;
+        case 'HUB': setup.hub = component; break;
+        case 'INTERNAL_GEAR_HUB': case 'GEARBOX': setup.internalGear = component; break;
+        case 'SPROCKET': setup.sprocket = component; break;
+        case 'FRAME': setup.frame = component; break;
+        case 'SHIFTER': setup.shifter = component; break;
+        case 'FORK': setup.fork = component; break;
+        case 'BRAKE': setup.brake = component; break;
+        case 'ROTOR': setup.rotor = component; break;
+        case 'BRAKE_ADAPTER': setup.brakeAdapter = component; break;
+        case 'BRAKE_PAD': setup.brakePad = component; break;
+        case 'BOTTOM_BRACKET': setup.bottomBracket = component; break;
+        case 'HANDLEBAR': setup.handlebar = component; break;
+        case 'STEM': setup.stem = component; break;
+        default: break;
+      }
+    });
+    return setup;
+  }
+
+  private static getComponents(setup: BikeSetup): Component[] {
+    return Object.keys(setup)
+      .map(key => setup[key as keyof BikeSetup])
+      .filter((component): component is Component => !!component);
+  }
+
+  private static getCategories(setup: BikeSetup): ComponentCategory[] {
+    return this.getComponents(setup).map(component => component.category);
+  }
+}
@@ -0,0 +1,56 @@
+// lib/compatibility/helpers.ts
+// Small utilities shared by the compatibility rules.
+
+import { BikeSetup, Component, CompatibilitySolution } from '@/types/gear-calculator'
+
+export const componentName = (component: Component): string => `${component.manufacturer} ${component.model}`;
+
+// Chainring component wins over the crankset's stock rings, as in the gear calculator
+export const getChainrings = (setup: BikeSetup): number[] => {
+  if (setup.chainring?.chainring) return [setup.chainring.chainring.teeth];
+  return setup.crankset?.crankset?.chainrings.slice().sort((a, b) => a - b) || [];
+};
+
+export const createSolution = (
+  type: CompatibilitySolution['type'],
+  message: string,
+  cost: number,
+  effort: CompatibilitySolution['effort'],
+  components: string[],
+  reliability = 90
+): CompatibilitySolution => ({
+  type,
+  description: message,
+  message,
+  cost,
+  effort,
+  difficulty: effort,
+  reliability,
+  components
+});
+
+// A catalog part offered as a fix, priced at its MSRP
+export const catalogSolution = (
+  type: CompatibilitySolution['type'],
+  component: Component,
+  message: string,
+  effort: CompatibilitySolution['effort'],
+  reliability: number
+): CompatibilitySolution => ({
+  ...createSolution(type, message, component.msrp || 0, effort, [componentName(component)], reliability),
+  componentIds: [component.id]
+});
+
+// Derailleurs that index with the drivetrain and wrap the given cog range
+export const findDerailleurs = (
+  catalog: Component[],
+  requirements: { speeds: number; largestCog: number; smallestCog: number; capacity: number },
+  excludeId?: string
+): Component[] => catalog.filter(c => {
+  const derailleur = c.derailleur;
+  if (c.category !== 'DERAILLEUR' || !derailleur || c.id === excludeId) return false;
+  if (derailleur.speeds !== requirements.speeds) return false;
+  if (derailleur.maxCog && derailleur.maxCog < requirements.largestCog) return false;
+  if (derailleur.minCog && derailleur.minCog > requirements.smallestCog) return false;
+  return !derailleur.capacity || derailleur.capacity >= requirements.capacity;
+});
@@ -0,0 +1,10 @@
+// lib/compatibility/index.ts
+// Entry point: the engine with the built-in rules registered, and the whole-build validator.
+
+import { CompatibilityEngine } from '@/lib/compatibility/engine'
+import { defaultRules } from '@/lib/compatibility/rules'
+import { BuildValidator } from '@/lib/compatibility/build'
+
+defaultRules.forEach(rule => CompatibilityEngine.register(rule));
+
+export { BuildValidator, CompatibilityEngine, defaultRules };
@@ -0,0 +1,106 @@
+// lib/compatibility/rules/actuation.ts
+
+import { Standards } from '@/lib/standards'
+import { ActuationFamily, BikeSetup, CompatibilitySolution } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+// Converters that let the fitted shifter pull the fitted derailleur
+const adapterSolutions = (setup: BikeSetup, shifter: ActuationFamily, derailleur: ActuationFamily): CompatibilitySolution[] => {
+  const names = [componentName(setup.shifter!), componentName(setup.derailleur!)];
+  return Standards.getActuationAdapters(shifter, derailleur)
+    .map(adapter => createSolution('adapter', `Fit a ${adapter.name} to convert ${shifter} cable pull for a ${derailleur} derailleur.`, adapter.cost, 'medium', names, 80));
+};
+
+// Shifter and derailleur must share a cable pull ratio or electronic protocol
+export const actuationRule: CompatibilityRule = {
+  id: 'actuation',
+  description: 'Shifter actuation family indexes the derailleur',
+  categories: ['SHIFTER', 'DERAILLEUR'],
+  suggests: ['SHIFTER', 'DERAILLEUR'],
+  check: ({ setup }) => {
+    const shifterComp = setup.shifter!;
+    const derailleurComp = setup.derailleur!;
+    const shifter = shifterComp.shifter;
+    const derailleur = derailleurComp.derailleur;
+    if (!shifter || !derailleur?.actuation) return { issues: [], solutions: [] };
+
+    const names = [componentName(shifterComp), componentName(derailleurComp)];
+    const componentIds = [shifterComp.id, derailleurComp.id];
+    const pairing = Standards.getActuationPairing(shifter.actuation, derailleur.actuation, derailleur.speeds);
+
+    if (!pairing) {
+      const cost = derailleurComp.msrp || 100;
+      return {
+        issues: [{
+          type: 'actuation',
+          severity: 'critical',
+          message: `${names[0]} (${shifter.actuation}) cannot index ${names[1]} (${derailleur.actuation}); the ${Standards.WIRELESS_ACTUATION.includes(shifter.actuation) || Standards.WIRELESS_ACTUATION.includes(derailleur.actuation) ? 'shift protocols' : 'cable pull ratios'} differ.`,
+          components: names,
+          componentIds,
+          costToFix: cost,
+          estimatedCost: cost
+        }],
+        solutions: [
+          ...adapterSolutions(setup, shifter.actuation, derailleur.actuation),
+          createSolution('replace', `Fit a ${shifter.actuation} derailleur or a known-good pairing for the shifter.`, cost, 'medium', names),
+          createSolution('replace', `Fit a ${derailleur.actuation} shifter to match the derailleur.`, shifterComp.msrp || 60, 'easy', names)
+        ]
+      };
+    }
+
+    // Electronic shifters send a shift command rather than a click count
+    if (!Standards.WIRELESS_ACTUATION.includes(shifter.actuation) && shifter.speeds !== derailleur.speeds) {
+      const cost = shifterComp.msrp || 60;
+      return {
+        issues: [{
+          type: 'actuation',
+          severity: 'critical',
+          message: `${names[0]} indexes ${shifter.speeds} positions but ${names[1]} is ${derailleur.speeds}-speed.`,
+          components: names,
+          componentIds,
+          costToFix: cost,
+          estimatedCost: cost
+        }],
+        solutions: [
+          createSolution('replace', `Fit a ${derailleur.speeds}-speed ${derailleur.actuation} shifter.`, cost, 'easy', names)
+        ]
+      };
+    }
+
+    return { issues: [], solutions: [] };
+  },
+  solve: (_issue, { setup, catalog }) => {
+    const shifterComp = setup.shifter!;
+    const derailleurComp = setup.derailleur!;
+    const shifter = shifterComp.shifter!;
+    const derailleur = derailleurComp.derailleur!;
+    const cassetteSpeeds = setup.cassette?.cassette?.speeds || derailleur.speeds;
+
+    // Shifters that index the fitted derailleur, same family or a known pairing
+    const shifters = catalog
+      .filter(c => {
+        const alt = c.shifter;
+        if (c.id === shifterComp.id || !alt || !Standards.getActuationPairing(alt.actuation, derailleur.actuation!, derailleur.speeds)) return false;
+        return Standards.WIRELESS_ACTUATION.includes(alt.actuation) || alt.speeds === derailleur.speeds;
+      })
+      .map(alt => {
+        const pairing = Standards.getActuationPairing(alt.shifter!.actuation, derailleur.actuation!, derailleur.speeds)!;
+        return catalogSolution('replace', alt, `Fit ${componentName(alt)} (${alt.shifter!.actuation}): ${pairing.note}.`, 'easy', 90);
+      });
+    // Families already pair, so only the click count is off
+    if (Standards.getActuationPairing(shifter.actuation, derailleur.actuation!, derailleur.speeds)) return shifters;
+
+    // Derailleurs the fitted shifter can pull that still match the cassette
+    const derailleurs = catalog
+      .filter(c => {
+        const alt = c.derailleur;
+        if (c.id === derailleurComp.id || !alt?.actuation || alt.speeds !== cassetteSpeeds) return false;
+        if (!Standards.WIRELESS_ACTUATION.includes(shifter.actuation) && alt.speeds !== shifter.speeds) return false;
+        return !!Standards.getActuationPairing(shifter.actuation, alt.actuation, alt.speeds);
+      })
+      .map(alt => catalogSolution('replace', alt, `Fit ${componentName(alt)} (${alt.derailleur!.actuation}), which ${shifter.actuation} shifters index.`, 'medium', 90));
+
+    return [...adapterSolutions(setup, shifter.actuation, derailleur.actuation!), ...shifters, ...derailleurs];
+  }
+};
@@ -0,0 +1,41 @@
+// lib/compatibility/rules/bcd.ts
+
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+export const bcdRule: CompatibilityRule = {
+  id: 'bcd',
+  description: 'Chainring bolt circle diameter matches the crankset spider',
+  categories: ['CHAINRING', 'CRANKSET'],
+  suggests: ['CHAINRING'],
+  check: ({ setup }) => {
+    const ring = setup.chainring!;
+    const crank = setup.crankset!;
+    const ringBcd = ring.chainring?.bcd;
+    const crankBcd = crank.crankset?.bcd;
+    if (!ringBcd || !crankBcd || ringBcd === crankBcd) return { issues: [], solutions: [] };
+
+    const names = [componentName(ring), componentName(crank)];
+    return {
+      issues: [{
+        type: 'bcd',
+        severity: 'critical',
+        message: `Chainring BCD (${ringBcd}mm) does not match crankset BCD (${crankBcd}mm).`,
+        components: names,
+        componentIds: [ring.id, crank.id],
+        estimatedCost: ring.msrp || 50,
+      }],
+      solutions: [
+        createSolution('replace', `Fit a ${ring.chainring!.teeth}T chainring made for the ${crankBcd}mm BCD spider.`, ring.msrp || 50, 'easy', names, 95)
+      ]
+    };
+  },
+  solve: (issue, { setup, catalog }) => {
+    const teeth = setup.chainring!.chainring!.teeth;
+    const crankBcd = setup.crankset!.crankset!.bcd;
+    return catalog
+      .filter(c => c.chainring && c.chainring.bcd === crankBcd && Math.abs(c.chainring.teeth - teeth) <= 2)
+      .map(ring => catalogSolution('replace', ring,
+        `Fit ${componentName(ring)} (${ring.chainring!.teeth}T, ${crankBcd}mm BCD).`, 'easy', ring.chainring!.teeth === teeth ? 95 : 85));
+  }
+};
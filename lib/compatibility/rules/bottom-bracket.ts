@@ -0,0 +1,109 @@
+// lib/compatibility/rules/bottom-bracket.ts
+
+import { Standards } from '@/lib/standards'
+import { CompatibilityIssue, CompatibilitySolution } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+// Crank spindle goes into the frame's shell, directly or on a conversion BB, and any fitted BB suits both
+export const bottomBracketRule: CompatibilityRule = {
+  id: 'bottom-bracket',
+  description: 'Crank spindle and bottom bracket fit the frame shell',
+  categories: ['CRANKSET', 'BOTTOM_BRACKET'],
+  match: 'any',
+  suggests: ['CRANKSET', 'BOTTOM_BRACKET'],
+  check: ({ setup }) => {
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    const crankComp = setup.crankset;
+    const bbComp = setup.bottomBracket;
+    const frameComp = setup.frame;
+    const crank = crankComp?.crankset;
+    const bb = bbComp?.bottomBracket;
+    const frameShell = frameComp?.frame?.bbShell;
+    const bbCost = bbComp?.msrp || 40;
+
+    if (bbComp && bb && frameComp && frameShell && bb.shell !== frameShell) {
+      const names = [componentName(bbComp), componentName(frameComp)];
+      issues.push({
+        type: 'bottom-bracket',
+        severity: 'critical',
+        message: `${names[0]} is a ${Standards.BB_SHELLS[bb.shell].label} BB but ${names[1]} has a ${Standards.BB_SHELLS[frameShell].label} shell.`,
+        components: names,
+        componentIds: [bbComp.id, frameComp.id],
+        costToFix: bbCost,
+        estimatedCost: bbCost
+      });
+      solutions.push(createSolution('replace', `Use a ${Standards.BB_SHELLS[frameShell].label} bottom bracket.`, bbCost, 'medium', names));
+    }
+
+    if (crankComp && crank?.spindleType && bbComp && bb && bb.spindle !== crank.spindleType) {
+      const names = [componentName(crankComp), componentName(bbComp)];
+      issues.push({
+        type: 'bottom-bracket',
+        severity: 'critical',
+        message: `${names[1]} takes ${Standards.SPINDLES[bb.spindle].label} spindles but ${names[0]} has a ${Standards.SPINDLES[crank.spindleType].label} spindle.`,
+        components: names,
+        componentIds: [crankComp.id, bbComp.id],
+        costToFix: bbCost,
+        estimatedCost: bbCost
+      });
+      solutions.push(createSolution('replace', `Use a bottom bracket for ${Standards.SPINDLES[crank.spindleType].label} spindles.`, bbCost, 'medium', names));
+    }
+
+    const shell = frameShell || bb?.shell;
+    if (!crankComp || !crank?.spindleType || !shell) return { issues, solutions };
+
+    const fit = Standards.getBottomBracketFit(shell, crank.spindleType, crank.spindleLength);
+    const holder = frameComp && frameShell ? frameComp : bbComp!;
+    const names = [componentName(crankComp), componentName(holder)];
+    if (!fit.fits) {
+      const cost = crankComp.msrp || 150;
+      issues.push({
+        type: 'bottom-bracket',
+        severity: 'critical',
+        message: `${names[0]} does not fit ${names[1]}: ${fit.reason}.`,
+        components: names,
+        componentIds: [crankComp.id, holder.id],
+        costToFix: cost,
+        estimatedCost: cost
+      });
+      solutions.push(createSolution('replace', `Use a crankset made for a ${Standards.BB_SHELLS[shell].label} shell.`, cost, 'medium', names));
+    } else if (fit.conversion && !bbComp) {
+      // Conversion BBs work but are a common source of creaks
+      issues.push({
+        type: 'bottom-bracket',
+        severity: 'low',
+        message: `${names[0]} runs on ${names[1]} with a ${fit.bottomBracket}.`,
+        components: names,
+        componentIds: [crankComp.id, holder.id],
+        costToFix: 60,
+        estimatedCost: 60
+      });
+      solutions.push(createSolution('adapter', `Fit a ${fit.bottomBracket}.`, 60, 'medium', names, 85));
+    }
+
+    return { issues, solutions };
+  },
+  solve: (issue, { setup, catalog }) => {
+    const crankComp = setup.crankset;
+    const spindle = crankComp?.crankset?.spindleType;
+    const shell = setup.frame?.frame?.bbShell || setup.bottomBracket?.bottomBracket?.shell;
+    if (!shell) return [];
+
+    // Crank that cannot go in the shell at all: offer cranksets that can, with the same ring count
+    const crankFits = !spindle || Standards.getBottomBracketFit(shell, spindle, crankComp!.crankset!.spindleLength).fits;
+    if (crankComp && !crankFits && issue.componentIds?.[0] === crankComp.id) {
+      const rings = crankComp.crankset!.chainrings.length;
+      return catalog
+        .filter(c => c.crankset?.spindleType && c.id !== crankComp.id && c.crankset.chainrings.length === rings &&
+          Standards.getBottomBracketFit(shell, c.crankset.spindleType, c.crankset.spindleLength).fits)
+        .map(alt => catalogSolution('replace', alt, `Use ${componentName(alt)} (${Standards.SPINDLES[alt.crankset!.spindleType!].label}).`, 'medium', 90));
+    }
+
+    if (!spindle) return [];
+    return catalog
+      .filter(c => c.bottomBracket && c.bottomBracket.shell === shell && c.bottomBracket.spindle === spindle && c.id !== setup.bottomBracket?.id)
+      .map(bb => catalogSolution(issue.severity === 'low' ? 'adapter' : 'replace', bb, `Fit ${componentName(bb)} (${Standards.BB_SHELLS[shell].label}, ${Standards.SPINDLES[spindle].label}).`, 'medium', 90));
+  }
+};
@@ -0,0 +1,105 @@
+// lib/compatibility/rules/brake-mount.ts
+
+import { Standards } from '@/lib/standards'
+import { BikeSetup, BrakeMountSpec, Component } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+// Fork tabs for a front caliper, frame tabs for a rear one
+const getTabs = (setup: BikeSetup): { holder?: Component; tabs?: BrakeMountSpec } => {
+  const holder = setup.brake?.brake?.position === 'REAR' ? setup.frame : setup.fork;
+  return { holder, tabs: holder?.frame?.brakeMount || holder?.fork?.brakeMount };
+};
+
+// Caliper, rotor size and adapter agree with the frame or fork brake tabs
+export const brakeMountRule: CompatibilityRule = {
+  id: 'brake-mount',
+  description: 'Caliper and rotor size fit the brake tabs, with the right adapter',
+  categories: ['BRAKE', 'ROTOR'],
+  suggests: ['BRAKE_ADAPTER', 'ROTOR'],
+  check: ({ setup }) => {
+    const brake = setup.brake!;
+    const rotor = setup.rotor!;
+    const caliper = brake.brake;
+    const diameter = rotor.rotor?.diameter;
+    const { holder, tabs } = getTabs(setup);
+    if (!caliper || !diameter || !holder || !tabs) return { issues: [], solutions: [] };
+
+    const names = [componentName(brake), componentName(rotor), componentName(holder)];
+    const componentIds = [brake.id, rotor.id, holder.id];
+    const required = Standards.getRequiredBrakeAdapter(tabs, caliper.mount, diameter);
+    const fitted = setup.brakeAdapter;
+    const adapterCost = Standards.BRAKE_ADAPTER_COST;
+
+    if (required === undefined) {
+      const labels = Standards.BRAKE_MOUNT_LABELS;
+      const message = diameter > tabs.maxRotor
+        ? `${componentName(holder)} is rated for rotors up to ${tabs.maxRotor}mm; the ${diameter}mm ${componentName(rotor)} is too large.`
+        : diameter < tabs.nativeRotor
+          ? `${componentName(holder)} takes a ${tabs.nativeRotor}mm rotor at minimum; the ${diameter}mm ${componentName(rotor)} is too small.`
+          : `A ${labels[caliper.mount]} caliper cannot be adapted to the ${labels[tabs.type]} tabs on ${componentName(holder)}.`;
+      const cost = diameter > tabs.maxRotor || diameter < tabs.nativeRotor ? rotor.msrp || 40 : brake.msrp || 100;
+      return {
+        issues: [{ type: 'brake', severity: 'critical', message, components: names, componentIds, costToFix: cost, estimatedCost: cost }],
+        solutions: [
+          diameter > tabs.maxRotor || diameter < tabs.nativeRotor
+            ? createSolution('replace', `Use a rotor between ${tabs.nativeRotor}mm and ${tabs.maxRotor}mm.`, cost, 'easy', names, 95)
+            : createSolution('replace', `Use a ${labels[tabs.type === 'FLAT_MOUNT' ? 'FLAT_MOUNT' : 'POST_MOUNT']} caliper.`, cost, 'medium', names)
+        ]
+      };
+    }
+
+    if (required === null) {
+      if (!fitted) return { issues: [], solutions: [] };
+      return {
+        issues: [{
+          type: 'brake',
+          severity: 'medium',
+          message: `${componentName(brake)} bolts straight onto ${componentName(holder)} for a ${diameter}mm rotor; ${componentName(fitted)} would move the caliper off the rotor.`,
+          components: [...names, componentName(fitted)],
+          componentIds: [...componentIds, fitted.id],
+          estimatedCost: 0
+        }],
+        solutions: [createSolution('modification', `Remove ${componentName(fitted)}.`, 0, 'easy', [componentName(fitted)], 100)]
+      };
+    }
+
+    if (fitted?.brakeAdapter && Standards.brakeAdapterMatches(fitted.brakeAdapter, required)) return { issues: [], solutions: [] };
+
+    const description = Standards.describeBrakeAdapter(required);
+    return {
+      issues: [{
+        type: 'brake',
+        severity: 'medium',
+        message: fitted
+          ? `${componentName(fitted)} does not suit this setup; ${componentName(brake)} on ${componentName(holder)} needs a ${description}.`
+          : `${componentName(brake)} needs a ${description} on ${componentName(holder)}.`,
+        components: fitted ? [...names, componentName(fitted)] : names,
+        componentIds: fitted ? [...componentIds, fitted.id] : componentIds,
+        costToFix: adapterCost,
+        estimatedCost: adapterCost
+      }],
+      solutions: [createSolution('adapter', `Fit a ${description}.`, adapterCost, 'easy', names, 95)]
+    };
+  },
+  solve: (_issue, { setup, catalog }) => {
+    const caliper = setup.brake!.brake!;
+    const rotor = setup.rotor!;
+    const { holder, tabs } = getTabs(setup);
+    const required = Standards.getRequiredBrakeAdapter(tabs!, caliper.mount, rotor.rotor!.diameter);
+
+    if (required) {
+      return catalog
+        .filter(c => c.brakeAdapter && Standards.brakeAdapterMatches(c.brakeAdapter, required))
+        .map(adapter => catalogSolution('adapter', adapter, `Fit ${componentName(adapter)} (${Standards.describeBrakeAdapter(required)}).`, 'easy', 95));
+    }
+    if (required === null) return [];
+
+    // Rotors the tabs accept with the fitted caliper, same hub interface; largest first for stopping power
+    return catalog
+      .filter(c => c.rotor && c.id !== rotor.id && c.rotor.mount === rotor.rotor!.mount &&
+        Standards.getRequiredBrakeAdapter(tabs!, caliper.mount, c.rotor.diameter) !== undefined)
+      .sort((a, b) => b.rotor!.diameter - a.rotor!.diameter)
+      .map(alt => catalogSolution('replace', alt, `Use ${componentName(alt)} (${alt.rotor!.diameter}mm), which ${componentName(holder!)} accepts.`, 'easy', 95));
+  }
+};
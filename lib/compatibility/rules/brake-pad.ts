@@ -0,0 +1,61 @@
+// lib/compatibility/rules/brake-pad.ts
+
+import { CompatibilityIssue, CompatibilitySolution } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+// Pads must match the caliper's pad shape and a compound the rotor is rated for
+export const brakePadRule: CompatibilityRule = {
+  id: 'brake-pad',
+  description: 'Pads fit the caliper and suit the rotor',
+  categories: ['BRAKE_PAD'],
+  suggests: ['BRAKE_PAD'],
+  check: ({ setup }) => {
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    const padComp = setup.brakePad!;
+    const pad = padComp.brakePad;
+    if (!pad) return { issues, solutions };
+    const cost = padComp.msrp || 25;
+
+    const brake = setup.brake;
+    if (brake?.brake && brake.brake.padShape !== pad.shape) {
+      const names = [componentName(padComp), componentName(brake)];
+      issues.push({
+        type: 'brake',
+        severity: 'critical',
+        message: `${names[0]} is a ${pad.shape} pad but ${names[1]} takes ${brake.brake.padShape}.`,
+        components: names,
+        componentIds: [padComp.id, brake.id],
+        costToFix: cost,
+        estimatedCost: cost
+      });
+      solutions.push(createSolution('replace', `Use ${brake.brake.padShape} pads.`, cost, 'easy', names, 95));
+    }
+
+    const rotor = setup.rotor;
+    if (rotor?.rotor?.resinOnly && pad.compound === 'METALLIC') {
+      const names = [componentName(padComp), componentName(rotor)];
+      issues.push({
+        type: 'brake',
+        severity: 'high',
+        message: `${names[1]} is rated for resin pads only; metallic ${names[0]} will wear it quickly.`,
+        components: names,
+        componentIds: [padComp.id, rotor.id],
+        costToFix: cost,
+        estimatedCost: cost
+      });
+      solutions.push(createSolution('replace', 'Use resin pads with this rotor.', cost, 'easy', names, 95));
+    }
+
+    return { issues, solutions };
+  },
+  solve: (_issue, { setup, catalog }) => {
+    const pad = setup.brakePad!;
+    const shape = setup.brake?.brake?.padShape || pad.brakePad!.shape;
+    const resinOnly = setup.rotor?.rotor?.resinOnly;
+    return catalog
+      .filter(c => c.brakePad && c.id !== pad.id && c.brakePad.shape === shape && !(resinOnly && c.brakePad.compound === 'METALLIC'))
+      .map(alt => catalogSolution('replace', alt, `Use ${componentName(alt)} (${alt.brakePad!.shape}, ${alt.brakePad!.compound.toLowerCase()}).`, 'easy', 95));
+  }
+};
@@ -0,0 +1,29 @@
+// lib/compatibility/rules/chainline.ts
+
+import { CompatibilityRule } from '@/types/compatibility'
+import { createSolution } from '@/lib/compatibility/helpers'
+
+// Front/rear chainline offset beyond which noise and wear become noticeable (mm)
+const MAX_DEVIATION = 3;
+
+export const chainlineRule: CompatibilityRule = {
+  id: 'chainline',
+  description: 'Front chainline sits close to the cassette centre',
+  categories: ['CHAINRING', 'CRANKSET'],
+  match: 'any',
+  check: ({ chainline }) => {
+    if (!chainline || Math.abs(chainline.deviation) <= MAX_DEVIATION) return { issues: [], solutions: [] };
+    return {
+      issues: [{
+        type: 'chainline',
+        severity: 'medium',
+        message: `Chainline deviation is ${chainline.deviation.toFixed(1)}mm, which may cause noise and premature wear.`,
+        components: ['Drivetrain'],
+        estimatedCost: 20 // Cost for spacers or adjustment
+      }],
+      solutions: [
+        createSolution('modification', 'Correct the chainline with BB spacers or a chainring with a different offset.', 20, 'medium', ['Drivetrain'], 75)
+      ]
+    };
+  }
+};
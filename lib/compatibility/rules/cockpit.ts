@@ -0,0 +1,68 @@
+// lib/compatibility/rules/cockpit.ts
+
+import { Standards } from '@/lib/standards'
+import { CompatibilityIssue, CompatibilitySolution, Component } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+// Stem clamps the handlebar and the fork steerer, directly or with a shim
+export const cockpitRule: CompatibilityRule = {
+  id: 'cockpit',
+  description: 'Stem clamps fit the handlebar and fork steerer',
+  categories: ['STEM'],
+  suggests: ['STEM'],
+  check: ({ setup }) => {
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    const stemComp = setup.stem!;
+    const stem = stemComp.stem;
+    if (!stem) return { issues, solutions };
+
+    const clamps: Array<{ part?: Component; diameter?: number; clamp: number; label: string }> = [
+      { part: setup.handlebar, diameter: setup.handlebar?.handlebar?.clampDiameter, clamp: stem.barClamp, label: 'bar clamp' },
+      { part: setup.fork, diameter: setup.fork?.fork?.steererDiameter, clamp: stem.steererClamp, label: 'steerer clamp' }
+    ];
+    clamps.forEach(({ part, diameter, clamp, label }) => {
+      if (!part || !diameter || diameter === clamp) return;
+      const names = [componentName(stemComp), componentName(part)];
+      const componentIds = [stemComp.id, part.id];
+      const shim = Standards.getClampShim(clamp, diameter);
+      if (shim) {
+        issues.push({
+          type: 'cockpit',
+          severity: 'low',
+          message: `${names[0]} has a ${clamp}mm ${label}; ${names[1]} is ${diameter}mm and needs a shim.`,
+          components: names,
+          componentIds,
+          costToFix: shim.cost,
+          estimatedCost: shim.cost
+        });
+        solutions.push(createSolution('adapter', `Fit a ${diameter} to ${clamp}mm shim.`, shim.cost, 'easy', names, 85));
+        return;
+      }
+      const cost = stemComp.msrp || 60;
+      issues.push({
+        type: 'cockpit',
+        severity: 'critical',
+        message: `${names[0]} has a ${clamp}mm ${label} but ${names[1]} is ${diameter}mm.`,
+        components: names,
+        componentIds,
+        costToFix: cost,
+        estimatedCost: cost
+      });
+      solutions.push(createSolution('replace', `Fit a stem with a ${diameter}mm ${label}.`, cost, 'easy', names));
+    });
+
+    return { issues, solutions };
+  },
+  solve: (_issue, { setup, catalog }) => {
+    const stem = setup.stem!;
+    const bar = setup.handlebar?.handlebar?.clampDiameter;
+    const steerer = setup.fork?.fork?.steererDiameter;
+    return catalog
+      .filter(c => c.stem && c.id !== stem.id
+        && (!bar || c.stem.barClamp === bar)
+        && (!steerer || c.stem.steererClamp === steerer))
+      .map(alt => catalogSolution('replace', alt, `Fit ${componentName(alt)} (${alt.stem!.barClamp}mm bar, ${alt.stem!.steererClamp}mm steerer).`, 'easy', 95));
+  }
+};
@@ -0,0 +1,95 @@
+// lib/compatibility/rules/derailleur.ts
+
+import { CompatibilityIssue, CompatibilitySolution } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution, findDerailleurs, getChainrings } from '@/lib/compatibility/helpers'
+
+// Rear derailleur total capacity and largest/smallest cog limits
+export const derailleurRule: CompatibilityRule = {
+  id: 'derailleur',
+  description: 'Rear derailleur wraps the drivetrain and clears the cassette',
+  categories: ['DERAILLEUR', 'CASSETTE'],
+  suggests: ['DERAILLEUR'],
+  check: ({ setup }) => {
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    const cassetteComp = setup.cassette!;
+    const derailleurComp = setup.derailleur!;
+    const cassette = cassetteComp.cassette;
+    const derailleur = derailleurComp.derailleur;
+    if (setup.internalGear || !cassette || !derailleur || cassette.cogs.length === 0) return { issues, solutions };
+
+    const cassetteName = componentName(cassetteComp);
+    const derailleurName = componentName(derailleurComp);
+    const names = [derailleurName, cassetteName];
+    const componentIds = [derailleurComp.id, cassetteComp.id];
+    const derailleurCost = derailleurComp.msrp || 100;
+    const smallestCog = Math.min(...cassette.cogs);
+    const largestCog = Math.max(...cassette.cogs);
+    const chainrings = getChainrings(setup);
+
+    if (derailleur.capacity && chainrings.length > 0) {
+      const frontRange = Math.max(...chainrings) - Math.min(...chainrings);
+      const rearRange = largestCog - smallestCog;
+      const required = frontRange + rearRange;
+      if (required > derailleur.capacity) {
+        // On a 2x the cage can still wrap every gear except the small-small combinations
+        const rearFits = rearRange <= derailleur.capacity && frontRange > 0;
+        issues.push({
+          type: 'capacity',
+          severity: rearFits ? 'medium' : 'high',
+          message: rearFits
+            ? `Drivetrain needs ${required}T of capacity but ${derailleurName} handles ${derailleur.capacity}T. The chain will hang slack in the small-ring/small-cog gears; avoid them or fit a longer cage.`
+            : `Drivetrain needs ${required}T of capacity but ${derailleurName} handles ${derailleur.capacity}T. The chain cannot be sized to wrap every gear.`,
+          components: names,
+          componentIds,
+          costToFix: rearFits ? 0 : derailleurCost,
+          estimatedCost: derailleurCost
+        });
+        solutions.push(createSolution('upgrade', `Fit a longer-cage derailleur with at least ${required}T capacity.`, derailleurCost, 'medium', names));
+      }
+    }
+
+    if (derailleur.maxCog && largestCog > derailleur.maxCog) {
+      issues.push({
+        type: 'cog',
+        severity: 'high',
+        message: `${largestCog}T largest cog exceeds the ${derailleur.maxCog}T maximum for ${derailleurName}. The upper pulley will hit the cog.`,
+        components: names,
+        componentIds,
+        costToFix: derailleurCost,
+        estimatedCost: derailleurCost
+      });
+      solutions.push(createSolution('upgrade', 'Upgrade to derailleur with higher capacity or choose cassette with smaller largest cog', derailleurCost, 'medium', names));
+    }
+
+    if (derailleur.minCog && smallestCog < derailleur.minCog) {
+      issues.push({
+        type: 'cog',
+        severity: 'medium',
+        message: `${smallestCog}T smallest cog is below the ${derailleur.minCog}T minimum for ${derailleurName}; shifting into the top gear will be poor.`,
+        components: names,
+        componentIds,
+        costToFix: cassetteComp.msrp || 80,
+        estimatedCost: cassetteComp.msrp || 80
+      });
+      solutions.push(createSolution('replace', `Choose a cassette starting at ${derailleur.minCog}T or larger.`, cassetteComp.msrp || 80, 'easy', names));
+    }
+
+    return { issues, solutions };
+  },
+  solve: (issue, { setup, catalog }) => {
+    const cogs = setup.cassette!.cassette!.cogs;
+    const chainrings = getChainrings(setup);
+    const frontRange = chainrings.length > 0 ? Math.max(...chainrings) - Math.min(...chainrings) : 0;
+    const requirements = {
+      speeds: setup.derailleur!.derailleur!.speeds,
+      largestCog: Math.max(...cogs),
+      smallestCog: Math.min(...cogs),
+      capacity: frontRange + Math.max(...cogs) - Math.min(...cogs)
+    };
+    return findDerailleurs(catalog, requirements, setup.derailleur!.id)
+      .map(derailleur => catalogSolution('replace', derailleur,
+        `Fit ${componentName(derailleur)}: ${derailleur.derailleur!.maxCog ? `up to ${derailleur.derailleur!.maxCog}T` : 'clears the cassette'}${derailleur.derailleur!.capacity ? `, ${derailleur.derailleur!.capacity}T capacity` : ''}.`, 'medium', 90));
+  }
+};
@@ -0,0 +1,90 @@
+// lib/compatibility/rules/drivetrain-speed.ts
+
+import { CompatibilityIssue, CompatibilitySolution } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution, findDerailleurs, getChainrings } from '@/lib/compatibility/helpers'
+
+// Speed counts have to agree across derailleur, cassette and chain
+export const drivetrainSpeedRule: CompatibilityRule = {
+  id: 'drivetrain-speed',
+  description: 'Derailleur, cassette and chain share a speed count',
+  categories: ['DERAILLEUR', 'CASSETTE', 'CHAIN'],
+  match: 'any',
+  suggests: ['CHAIN', 'DERAILLEUR'],
+  check: ({ setup }) => {
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    if (setup.internalGear) return { issues, solutions };
+    const cassetteComp = setup.cassette;
+    const derailleurComp = setup.derailleur;
+    const chainComp = setup.chain;
+    const cassette = cassetteComp?.cassette;
+    const derailleur = derailleurComp?.derailleur;
+    const chain = chainComp?.chain;
+
+    if (cassetteComp && derailleurComp && cassette && derailleur?.speeds && cassette.speeds !== derailleur.speeds) {
+      const names = [componentName(derailleurComp), componentName(cassetteComp)];
+      const cost = derailleurComp.msrp || 100;
+      issues.push({
+        type: 'speed',
+        severity: 'critical',
+        message: `${names[0]} is ${derailleur.speeds}-speed but ${names[1]} is ${cassette.speeds}-speed; indexing will not line up.`,
+        components: names,
+        componentIds: [derailleurComp.id, cassetteComp.id],
+        costToFix: cost,
+        estimatedCost: cost
+      });
+      solutions.push(createSolution('replace', `Fit a ${cassette.speeds}-speed derailleur to match the cassette.`, cost, 'medium', names));
+    }
+
+    if (chainComp && chain?.speeds) {
+      // Chains are sized to the cog pitch, so the chain has to match the cassette
+      const reference = cassetteComp && cassette ? cassetteComp : derailleurComp;
+      const speeds = cassette?.speeds || derailleur?.speeds;
+      if (reference && speeds && chain.speeds !== speeds) {
+        const names = [componentName(chainComp), componentName(reference)];
+        const cost = chainComp.msrp || 30;
+        issues.push({
+          type: 'chain',
+          severity: chain.speeds < speeds ? 'high' : 'medium',
+          message: chain.speeds < speeds
+            ? `${chain.speeds}-speed ${names[0]} is too wide for a ${speeds}-speed drivetrain and will rub adjacent cogs.`
+            : `${chain.speeds}-speed ${names[0]} is narrower than the ${speeds}-speed drivetrain needs; shifting and wear will suffer.`,
+          components: names,
+          componentIds: [chainComp.id, reference.id],
+          costToFix: cost,
+          estimatedCost: cost
+        });
+        solutions.push(createSolution('replace', 'Replace chain with correct speed rating to match cassette', cost, 'easy', names, 95));
+      }
+    }
+
+    return { issues, solutions };
+  },
+  solve: (issue, { setup, catalog }) => {
+    const cassette = setup.cassette?.cassette;
+    const speeds = cassette?.speeds || setup.derailleur?.derailleur?.speeds;
+    if (!speeds) return [];
+
+    if (issue.type === 'chain') {
+      return catalog
+        .filter(c => c.chain && c.chain.speeds === speeds && c.id !== setup.chain?.id)
+        .map(chain => catalogSolution('replace', chain, `Fit ${componentName(chain)} (${speeds}-speed).`, 'easy', 95));
+    }
+
+    if (issue.type === 'speed' && cassette) {
+      const chainrings = getChainrings(setup);
+      const frontRange = chainrings.length > 0 ? Math.max(...chainrings) - Math.min(...chainrings) : 0;
+      const requirements = {
+        speeds: cassette.speeds,
+        largestCog: Math.max(...cassette.cogs),
+        smallestCog: Math.min(...cassette.cogs),
+        capacity: frontRange + Math.max(...cassette.cogs) - Math.min(...cassette.cogs)
+      };
+      return findDerailleurs(catalog, requirements, setup.derailleur?.id)
+        .map(derailleur => catalogSolution('replace', derailleur, `Fit ${componentName(derailleur)} (${cassette.speeds}-speed).`, 'medium', 90));
+    }
+
+    return [];
+  }
+};
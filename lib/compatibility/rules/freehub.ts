@@ -0,0 +1,114 @@
+// lib/compatibility/rules/freehub.ts
+
+import { Standards } from '@/lib/standards'
+import { CassetteData, Component, FreehubFit } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+// Rough price of a cassette spacer or adapter ring
+const SPACER_COST = 5;
+
+export const freehubRule: CompatibilityRule = {
+  id: 'freehub',
+  description: 'Cassette mounts on a freehub body the hub offers',
+  categories: ['CASSETTE', 'HUB'],
+  suggests: ['FREEHUB_BODY', 'CASSETTE'],
+  check: ({ setup }) => {
+    const cassette = setup.cassette!;
+    const hub = setup.hub!;
+    const freehubType = cassette.cassette?.freehubType;
+    const hubFreehubs = hub.hub?.freehubTypes || [];
+    if (!freehubType || hubFreehubs.length === 0) return { issues: [], solutions: [] };
+
+    const names = [componentName(cassette), componentName(hub)];
+    const componentIds = [cassette.id, hub.id];
+    const fits = hubFreehubs.map(body => Standards.getFreehubFit(freehubType, body)).filter((fit): fit is FreehubFit => fit !== null);
+    if (fits.some(fit => !fit.spacer && !fit.note)) return { issues: [], solutions: [] };
+
+    // Fits the fitted body with a spacer or adapter ring
+    const crossFit = fits[0];
+    if (crossFit) {
+      const how = crossFit.spacer ? `a ${crossFit.spacer}mm spacer` : 'an adapter';
+      return {
+        issues: [{
+          type: 'freehub',
+          severity: 'low',
+          message: `${componentName(cassette)} (${freehubType}) fits the ${crossFit.body} body on ${componentName(hub)} with ${how}${crossFit.note ? `: ${crossFit.note}` : ''}.`,
+          components: names,
+          componentIds,
+          costToFix: SPACER_COST,
+          estimatedCost: SPACER_COST
+        }],
+        solutions: [
+          createSolution('adapter', `Fit ${how} behind the cassette.`, SPACER_COST, 'easy', names, 95)
+        ]
+      };
+    }
+
+    // Fits after swapping the freehub body for one the hub offers
+    const swaps = (hub.hub?.swappableFreehubs || [])
+      .filter(swap => Standards.getFreehubFit(freehubType, swap.type))
+      .sort((a, b) => a.cost - b.cost);
+    if (swaps.length > 0) {
+      const swap = swaps[0];
+      return {
+        issues: [{
+          type: 'freehub',
+          severity: 'medium',
+          message: `${componentName(cassette)} fits ${componentName(hub)} after a $${swap.cost} ${swap.type} body swap.`,
+          components: names,
+          componentIds,
+          costToFix: swap.cost,
+          estimatedCost: swap.cost
+        }],
+        solutions: swaps.map(option => createSolution('replace', `Swap ${componentName(hub)} to a ${option.type} freehub body.`, option.cost, 'easy', names, 95))
+      };
+    }
+
+    return {
+      issues: [{
+        type: 'freehub',
+        severity: 'critical',
+        message: `${componentName(cassette)} requires ${freehubType} freehub, but ${componentName(hub)} only supports ${hubFreehubs.join(', ')}`,
+        components: names,
+        componentIds,
+        costToFix: 150,
+        estimatedCost: 150
+      }],
+      solutions: [
+        createSolution('replace', 'Replace freehub body with compatible type or choose different cassette', 150, 'medium', names)
+      ]
+    };
+  },
+  solve: (issue, { setup, catalog }) => {
+    // Spacer fits need no parts from the catalog
+    if (issue.severity === 'low') return [];
+    const cassette = setup.cassette!;
+    const hub = setup.hub!;
+    const cassetteData = cassette.cassette!;
+    const hubFreehubs = hub.hub?.freehubTypes || [];
+
+    const bodies = catalog
+      .filter(c => c.freehubBody && Standards.getFreehubFit(cassetteData.freehubType, c.freehubBody.type) &&
+        c.freehubBody.hubManufacturer === hub.manufacturer && c.freehubBody.hubModels.includes(hub.model))
+      .map(body => catalogSolution('replace', body, `Swap ${componentName(hub)} to the ${componentName(body)} body to run ${componentName(cassette)}.`, 'easy', 95));
+
+    // Same speed count and a range within a tooth at the small end and 10% at the big end
+    const smallest = Math.min(...cassetteData.cogs);
+    const largest = Math.max(...cassetteData.cogs);
+    const cassettes = catalog
+      .filter((c): c is Component & { cassette: CassetteData } => {
+        const alt = c.cassette;
+        if (c.id === cassette.id || !alt || alt.speeds !== cassetteData.speeds) return false;
+        if (!hubFreehubs.some(body => Standards.getFreehubFit(alt.freehubType, body))) return false;
+        return Math.abs(Math.min(...alt.cogs) - smallest) <= 1 && Math.abs(Math.max(...alt.cogs) - largest) / largest <= 0.1;
+      })
+      .map(alt => catalogSolution('replace', alt, `Use ${componentName(alt)} (${alt.cassette.freehubType}), which fits ${componentName(hub)} with a similar range.`, 'easy', 90));
+
+    const swaps = (hub.hub?.swappableFreehubs || [])
+      .filter(swap => Standards.getFreehubFit(cassetteData.freehubType, swap.type))
+      .map(swap => createSolution('replace', `Swap ${componentName(hub)} to a ${swap.type} freehub body.`, swap.cost, 'easy', [componentName(hub)], 95));
+
+    return [...swaps, ...bodies, ...cassettes];
+  }
+};
@@ -0,0 +1,127 @@
+// lib/compatibility/rules/hub-spacing.ts
+
+import { Standards } from '@/lib/standards'
+import { AxleType, BikeSetup, Component, HubData } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+interface AxleFit {
+  hub: Component; // hub, or the wheel it is built into
+  hubData: HubData;
+  holder: Component; // frame for a rear hub, fork for a front one
+  hubSpacing: number;
+  holderSpacing: number;
+  hubAxle?: AxleType;
+  holderAxle?: AxleType;
+}
+
+const getSpacing = (hub: HubData): number | undefined =>
+  hub.axleType ? Standards.AXLES[hub.axleType].spacing : hub.rearSpacing || hub.frontSpacing;
+
+const isRear = (hub: HubData): boolean =>
+  hub.axleType ? Standards.AXLES[hub.axleType].position === 'REAR' : !!hub.rearSpacing;
+
+const getAxleFit = (setup: BikeSetup): AxleFit | null => {
+  const hub = setup.hub?.hub ? setup.hub : setup.wheel?.wheel?.hub ? setup.wheel : undefined;
+  const hubData = hub?.hub || hub?.wheel?.hub;
+  if (!hub || !hubData) return null;
+  const hubSpacing = getSpacing(hubData);
+  const holder = isRear(hubData) ? setup.frame : setup.fork;
+  const holderAxle = holder?.frame?.axleType || holder?.fork?.axleType;
+  const holderSpacing = holderAxle ? Standards.AXLES[holderAxle].spacing : holder?.frame?.rearSpacing;
+  if (!holder || !hubSpacing || !holderSpacing) return null;
+  return { hub, hubData, holder, hubSpacing, holderSpacing, hubAxle: hubData.axleType, holderAxle };
+};
+
+// End caps that take the hub to the holder's standard: the hub maker's own kits first, then same-family guesses
+const getConversion = (fit: AxleFit): { type: AxleType; cost: number; listed: boolean } | null => {
+  const listed = (fit.hubData.endCapConversions || []).find(c => fit.holderAxle
+    ? c.type === fit.holderAxle
+    : Standards.AXLES[c.type].spacing === fit.holderSpacing);
+  if (listed) return { ...listed, listed: true };
+  if (fit.hubAxle && fit.holderAxle && Standards.sharesEndCapFamily(fit.hubAxle, fit.holderAxle)) {
+    return { type: fit.holderAxle, cost: Standards.DEFAULT_END_CAP_COST, listed: false };
+  }
+  return null;
+};
+
+// Hub axle and spacing match the frame or fork dropouts, directly or after an end cap conversion
+export const hubSpacingRule: CompatibilityRule = {
+  id: 'hub-spacing',
+  description: 'Hub axle and spacing match the frame or fork dropouts',
+  categories: ['HUB', 'WHEEL'],
+  match: 'any',
+  suggests: ['HUB', 'WHEEL'],
+  check: ({ setup }) => {
+    const fit = getAxleFit(setup);
+    if (!fit) return { issues: [], solutions: [] };
+    const { hub, holder, hubAxle, holderAxle } = fit;
+    const hubName = componentName(hub);
+    const holderName = componentName(holder);
+    const names = [hubName, holderName];
+    const componentIds = [hub.id, holder.id];
+    const hubLabel = hubAxle ? Standards.AXLES[hubAxle].label : `${fit.hubSpacing}mm`;
+    const holderLabel = holderAxle ? Standards.AXLES[holderAxle].label : `${fit.holderSpacing}mm`;
+
+    // Spacing alone is all we can compare when either side lacks a full standard
+    if (hubAxle && holderAxle ? hubAxle === holderAxle : fit.hubSpacing === fit.holderSpacing) {
+      return { issues: [], solutions: [] };
+    }
+
+    const conversion = getConversion(fit);
+    if (conversion) {
+      const targetLabel = Standards.AXLES[conversion.type].label;
+      return {
+        issues: [{
+          type: 'axle',
+          severity: conversion.listed ? 'low' : 'medium',
+          message: conversion.listed
+            ? `${hubName} is ${hubLabel}; a $${conversion.cost} end cap kit converts it to ${targetLabel} for ${holderName}.`
+            : `${hubName} is ${hubLabel} but ${holderName} is ${holderLabel}; the standards share a hub shell, so end caps should convert it. Confirm with the hub maker.`,
+          components: names,
+          componentIds,
+          costToFix: conversion.cost,
+          estimatedCost: conversion.cost
+        }],
+        solutions: [
+          createSolution('adapter', `Fit ${targetLabel} end caps to ${hubName}.`, conversion.cost, 'easy', names, conversion.listed ? 95 : 70)
+        ]
+      };
+    }
+
+    const cost = hub.msrp || 150;
+    return {
+      issues: [{
+        type: 'axle',
+        severity: 'critical',
+        message: `${hubName} is ${hubLabel} but ${holderName} takes ${holderLabel}${fit.hubSpacing !== fit.holderSpacing ? '' : ' axles'}; no end caps convert between them.`,
+        components: names,
+        componentIds,
+        costToFix: cost,
+        estimatedCost: cost
+      }],
+      solutions: [createSolution('replace', `Use a ${holderLabel} ${hub.category === 'WHEEL' ? 'wheel' : 'hub'}.`, cost, 'hard', names)]
+    };
+  },
+  solve: (issue, { setup, catalog }) => {
+    // A listed or likely end cap kit is the fix; nothing to look up
+    if (issue.severity !== 'critical') return [];
+    const fit = getAxleFit(setup)!;
+    const cassette = setup.cassette?.cassette;
+
+    // Hubs and wheels for the same end that fit directly or with their own end cap kits, and still take the cassette
+    return catalog
+      .filter(c => {
+        const alt = c.hub || c.wheel?.hub;
+        if (!alt || c.id === fit.hub.id || c.category !== fit.hub.category || isRear(alt) !== isRear(fit.hubData)) return false;
+        if (cassette && isRear(alt) && !alt.freehubTypes.some(body => Standards.getFreehubFit(cassette.freehubType, body))) return false;
+        if (!fit.holderAxle || !alt.axleType) return getSpacing(alt) === fit.holderSpacing;
+        return alt.axleType === fit.holderAxle || (alt.endCapConversions || []).some(conv => conv.type === fit.holderAxle);
+      })
+      .map(alt => {
+        const altAxle = (alt.hub || alt.wheel?.hub)!.axleType;
+        const how = !fit.holderAxle || altAxle === fit.holderAxle ? 'fits directly' : 'fits with its end cap kit';
+        return catalogSolution('replace', alt, `Use ${componentName(alt)}, which ${how}.`, 'hard', 90);
+      });
+  }
+};
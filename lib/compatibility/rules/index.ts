@@ -0,0 +1,36 @@
+// lib/compatibility/rules/index.ts
+
+import { CompatibilityRule } from '@/types/compatibility'
+import { bcdRule } from '@/lib/compatibility/rules/bcd'
+import { chainlineRule } from '@/lib/compatibility/rules/chainline'
+import { freehubRule } from '@/lib/compatibility/rules/freehub'
+import { derailleurRule } from '@/lib/compatibility/rules/derailleur'
+import { drivetrainSpeedRule } from '@/lib/compatibility/rules/drivetrain-speed'
+import { internalGearRule } from '@/lib/compatibility/rules/internal-gear'
+import { hubSpacingRule } from '@/lib/compatibility/rules/hub-spacing'
+import { actuationRule } from '@/lib/compatibility/rules/actuation'
+import { brakeMountRule } from '@/lib/compatibility/rules/brake-mount'
+import { rotorMountRule } from '@/lib/compatibility/rules/rotor-mount'
+import { brakePadRule } from '@/lib/compatibility/rules/brake-pad'
+import { bottomBracketRule } from '@/lib/compatibility/rules/bottom-bracket'
+import { tireClearanceRule } from '@/lib/compatibility/rules/tire-clearance'
+import { tireRimRule } from '@/lib/compatibility/rules/tire-rim'
+import { cockpitRule } from '@/lib/compatibility/rules/cockpit'
+
+export const defaultRules: CompatibilityRule[] = [
+  bcdRule,
+  chainlineRule,
+  internalGearRule,
+  derailleurRule,
+  drivetrainSpeedRule,
+  freehubRule,
+  hubSpacingRule,
+  actuationRule,
+  brakeMountRule,
+  rotorMountRule,
+  brakePadRule,
+  bottomBracketRule,
+  tireClearanceRule,
+  tireRimRule,
+  cockpitRule,
+];
@@ -0,0 +1,131 @@
+// lib/compatibility/rules/internal-gear.ts
+
+import { CompatibilityIssue, CompatibilitySolution } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution, getChainrings } from '@/lib/compatibility/helpers'
+
+// Sprocket/chainring limits and dropout requirements for internal gear hubs and gearboxes
+export const internalGearRule: CompatibilityRule = {
+  id: 'internal-gear',
+  description: 'Internal gear hub or gearbox suits the sprocket, chainring and frame',
+  categories: ['INTERNAL_GEAR_HUB', 'GEARBOX'],
+  match: 'any',
+  suggests: ['SPROCKET'],
+  check: ({ setup }) => {
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    const internalComp = setup.internalGear!;
+    const internal = internalComp.internalGear;
+    if (!internal) return { issues, solutions };
+    const internalName = componentName(internalComp);
+
+    const sprocketTeeth = setup.sprocket?.sprocket?.teeth;
+    if (setup.sprocket && sprocketTeeth && internal.sprocketRange &&
+        (sprocketTeeth < internal.sprocketRange.min || sprocketTeeth > internal.sprocketRange.max)) {
+      const names = [componentName(setup.sprocket), internalName];
+      issues.push({
+        type: 'sprocket',
+        severity: 'high',
+        message: `${sprocketTeeth}T sprocket is outside the ${internal.sprocketRange.min}-${internal.sprocketRange.max}T range supported by ${internalName}.`,
+        components: names,
+        componentIds: [setup.sprocket.id, internalComp.id],
+        costToFix: 30,
+        estimatedCost: 30
+      });
+      solutions.push(createSolution('replace', `Fit a sprocket between ${internal.sprocketRange.min}T and ${internal.sprocketRange.max}T.`, 30, 'easy', names, 95));
+    }
+
+    const chainrings = getChainrings(setup);
+    const chainring = chainrings.length > 0 ? Math.max(...chainrings) : 0;
+    if (chainring && internal.chainringRange &&
+        (chainring < internal.chainringRange.min || chainring > internal.chainringRange.max)) {
+      issues.push({
+        type: 'sprocket',
+        severity: 'high',
+        message: `${chainring}T chainring is outside the ${internal.chainringRange.min}-${internal.chainringRange.max}T range supported by ${internalName}.`,
+        components: ['Chainring', internalName],
+        costToFix: 60,
+        estimatedCost: 60
+      });
+      solutions.push(createSolution('replace', `Fit a chainring between ${internal.chainringRange.min}T and ${internal.chainringRange.max}T.`, 60, 'easy', ['Chainring', internalName], 95));
+    }
+    if (chainrings.length > 1) {
+      issues.push({
+        type: 'sprocket',
+        severity: 'critical',
+        message: `${internalName} runs a single chainring; a ${chainrings.length}x crankset cannot be used without a front derailleur and tensioner.`,
+        components: ['Crankset', internalName],
+        costToFix: 60,
+        estimatedCost: 60
+      });
+      solutions.push(createSolution('replace', 'Run a single chainring on the crankset.', 60, 'easy', ['Crankset', internalName]));
+    }
+
+    // Manufacturers set a minimum chainring/sprocket ratio to keep input torque inside the hub's limit
+    if (chainring && sprocketTeeth && internal.minDriveRatio && chainring / sprocketTeeth < internal.minDriveRatio) {
+      issues.push({
+        type: 'sprocket',
+        severity: 'medium',
+        message: `${chainring}/${sprocketTeeth} gives a ${(chainring / sprocketTeeth).toFixed(2)} drive ratio, below the ${internal.minDriveRatio} minimum for ${internalName}. This can overload the hub internals.`,
+        components: [internalName],
+        componentIds: [internalComp.id],
+        costToFix: 30,
+        estimatedCost: 30
+      });
+      solutions.push(createSolution('replace', `Use a smaller sprocket or larger chainring to reach a ${internal.minDriveRatio} drive ratio.`, 30, 'easy', [internalName]));
+    }
+
+    if (setup.cassette || setup.derailleur) {
+      issues.push({
+        type: 'other',
+        severity: 'low',
+        message: `${internalName} replaces the cassette and rear derailleur; they are ignored in the gear calculations.`,
+        components: [internalName],
+        componentIds: [internalComp.id],
+        estimatedCost: 0
+      });
+    }
+
+    const dropoutType = setup.frame?.frame?.dropoutType;
+    if (setup.frame && dropoutType && !internal.dropoutTypes.includes(dropoutType)) {
+      const frameName = componentName(setup.frame);
+      const dropoutLabel = dropoutType.toLowerCase().replace('_', ' ');
+      if (internal.type === 'GEARBOX') {
+        issues.push({
+          type: 'dropout',
+          severity: 'critical',
+          message: `${internalName} needs a frame built around the gearbox mount; ${frameName} has ${dropoutLabel} dropouts.`,
+          components: [frameName, internalName],
+          componentIds: [setup.frame.id, internalComp.id],
+          estimatedCost: 0
+        });
+      } else {
+        // Vertical dropouts cannot tension the chain, so an internal hub needs a sprung tensioner
+        issues.push({
+          type: 'dropout',
+          severity: 'medium',
+          message: `${frameName} has ${dropoutLabel} dropouts; ${internalName} needs a chain tensioner to take up slack.`,
+          components: [frameName, internalName],
+          componentIds: [setup.frame.id, internalComp.id],
+          costToFix: 40,
+          estimatedCost: 40
+        });
+        solutions.push(createSolution('adapter', 'Fit a sprung chain tensioner.', 40, 'easy', [frameName, internalName], 80));
+      }
+    }
+
+    return { issues, solutions };
+  },
+  solve: (issue, { setup, catalog }) => {
+    const internal = setup.internalGear!.internalGear;
+    const range = internal?.sprocketRange;
+    if (!internal || !range || !setup.sprocket || !issue.componentIds?.includes(setup.sprocket.id)) return [];
+
+    const chainrings = getChainrings(setup);
+    const chainring = chainrings.length > 0 ? Math.max(...chainrings) : 0;
+    return catalog
+      .filter(c => c.sprocket && c.sprocket.teeth >= range.min && c.sprocket.teeth <= range.max &&
+        (!chainring || !internal.minDriveRatio || chainring / c.sprocket.teeth >= internal.minDriveRatio))
+      .map(sprocket => catalogSolution('replace', sprocket, `Fit ${componentName(sprocket)} (${sprocket.sprocket!.teeth}T).`, 'easy', 95));
+  }
+};
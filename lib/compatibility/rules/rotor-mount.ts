@@ -0,0 +1,61 @@
+// lib/compatibility/rules/rotor-mount.ts
+
+import { Standards } from '@/lib/standards'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+// Rotor interface matches the hub: a 6-bolt rotor goes on Center Lock with an adapter, never the reverse
+export const rotorMountRule: CompatibilityRule = {
+  id: 'rotor-mount',
+  description: 'Rotor mounting interface matches the hub',
+  categories: ['ROTOR', 'HUB'],
+  suggests: ['ROTOR'],
+  check: ({ setup }) => {
+    const rotor = setup.rotor!;
+    const hub = setup.hub!;
+    const rotorMount = rotor.rotor?.mount;
+    const hubMount = hub.hub?.rotorMount;
+    if (!rotorMount || !hubMount || rotorMount === hubMount) return { issues: [], solutions: [] };
+
+    const names = [componentName(rotor), componentName(hub)];
+    const componentIds = [rotor.id, hub.id];
+    if (rotorMount === 'SIX_BOLT') {
+      const cost = Standards.CENTER_LOCK_ADAPTER_COST;
+      return {
+        issues: [{
+          type: 'brake',
+          severity: 'low',
+          message: `${names[0]} is 6-bolt; ${names[1]} is Center Lock and needs a 6-bolt adapter.`,
+          components: names,
+          componentIds,
+          costToFix: cost,
+          estimatedCost: cost
+        }],
+        solutions: [createSolution('adapter', 'Fit a Center Lock to 6-bolt rotor adapter.', cost, 'easy', names, 90)]
+      };
+    }
+
+    const cost = rotor.msrp || 40;
+    return {
+      issues: [{
+        type: 'brake',
+        severity: 'critical',
+        message: `${names[0]} is Center Lock but ${names[1]} has a 6-bolt rotor interface.`,
+        components: names,
+        componentIds,
+        costToFix: cost,
+        estimatedCost: cost
+      }],
+      solutions: [createSolution('replace', 'Use a 6-bolt rotor of the same diameter.', cost, 'easy', names, 95)]
+    };
+  },
+  solve: (issue, { setup, catalog }) => {
+    // The adapter is the fix for a 6-bolt rotor; nothing to look up
+    if (issue.severity === 'low') return [];
+    const rotor = setup.rotor!;
+    const hubMount = setup.hub!.hub!.rotorMount;
+    return catalog
+      .filter(c => c.rotor && c.id !== rotor.id && c.rotor.mount === hubMount && c.rotor.diameter === rotor.rotor!.diameter)
+      .map(alt => catalogSolution('replace', alt, `Use ${componentName(alt)} (${alt.rotor!.diameter}mm 6-bolt).`, 'easy', 95));
+  }
+};
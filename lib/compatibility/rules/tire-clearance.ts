@@ -0,0 +1,100 @@
+// lib/compatibility/rules/tire-clearance.ts
+
+import { Standards } from '@/lib/standards'
+import { BikeSetup, ClearancePoint, CompatibilityIssue, CompatibilitySolution, Component, TireClearance } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+const getWheelSize = (setup: BikeSetup): number => setup.wheel?.wheel?.diameter ?? setup.tire!.tire!.diameter;
+
+const getHolders = (setup: BikeSetup): Array<{ holder: Component; clearances: TireClearance[] }> =>
+  [setup.frame, setup.fork]
+    .filter((c): c is Component => !!c)
+    .map(holder => ({ holder, clearances: holder.frame?.tireClearance || holder.fork?.tireClearance || [] }))
+    .filter(h => h.clearances.length > 0);
+
+// Widest tire (mm) the clearance takes with the margin kept each side
+const getMaxWidth = (clearance: TireClearance, margin: number): number => {
+  const points = Object.keys(clearance.points || {}).map(p => clearance.points![p as ClearancePoint]!);
+  return Math.min(clearance.maxTireWidth, ...points.map(free => free - 2 * margin));
+};
+
+// Tire fits the frame and fork for its wheel size, with room left for mud
+export const tireClearanceRule: CompatibilityRule = {
+  id: 'tire-clearance',
+  description: 'Tire fits the frame and fork with a clearance margin',
+  categories: ['TIRE'],
+  suggests: ['TIRE'],
+  check: ({ setup, clearanceMargin }) => {
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    const tireComp = setup.tire!;
+    const tire = tireComp.tire;
+    if (!tire) return { issues, solutions };
+
+    const width = Math.round(Standards.getTireWidthMm(tire.width));
+    const wheelSize = getWheelSize(setup);
+    const margin = clearanceMargin ?? Standards.TIRE_CLEARANCE_MARGINS.dry;
+    const cost = tireComp.msrp || 60;
+
+    getHolders(setup).forEach(({ holder, clearances }) => {
+      const names = [componentName(tireComp), componentName(holder)];
+      const componentIds = [tireComp.id, holder.id];
+      const clearance = Standards.getTireClearance(clearances, wheelSize);
+      if (!clearance) {
+        issues.push({
+          type: 'tire-clearance',
+          severity: 'high',
+          message: `${names[1]} has no rated clearance for ${wheelSize}" wheels.`,
+          components: names,
+          componentIds,
+          estimatedCost: 0
+        });
+        return;
+      }
+
+      // The tightest pinch point decides the fit
+      const tightest = Object.keys(clearance.points || {})
+        .map(point => ({ point: point as ClearancePoint, free: clearance.points![point as ClearancePoint]! }))
+        .sort((a, b) => a.free - b.free)[0];
+      const perSide = tightest ? (tightest.free - width) / 2 : undefined;
+      const maxWidth = getMaxWidth(clearance, margin);
+      let severity: CompatibilityIssue['severity'] | undefined;
+      let message = '';
+
+      if (tightest && perSide! < 0) {
+        severity = 'critical';
+        message = `The ${width}mm ${names[0]} is wider than the ${tightest.free}mm at the ${Standards.CLEARANCE_POINT_LABELS[tightest.point]} of ${names[1]}.`;
+      } else if (width > clearance.maxTireWidth) {
+        severity = 'high';
+        message = `${names[1]} is rated for ${wheelSize}" tires up to ${clearance.maxTireWidth}mm; the ${width}mm ${names[0]} exceeds it.`;
+      } else if (tightest && perSide! < margin) {
+        severity = 'medium';
+        message = `The ${width}mm ${names[0]} leaves ${perSide!.toFixed(1)}mm each side at the ${Standards.CLEARANCE_POINT_LABELS[tightest.point]} of ${names[1]}; ${margin}mm is recommended.`;
+      }
+      if (!severity) return;
+
+      issues.push({ type: 'tire-clearance', severity, message, components: names, componentIds, costToFix: cost, estimatedCost: cost });
+      solutions.push(createSolution('replace', `Use a ${wheelSize}" tire no wider than ${Math.floor(maxWidth)}mm.`, cost, 'easy', names, 95));
+    });
+
+    return { issues, solutions };
+  },
+  solve: (issue, { setup, catalog, clearanceMargin }) => {
+    const tireComp = setup.tire!;
+    const wheelSize = getWheelSize(setup);
+    const margin = clearanceMargin ?? Standards.TIRE_CLEARANCE_MARGINS.dry;
+    const clearances = getHolders(setup)
+      .map(({ clearances }) => Standards.getTireClearance(clearances, wheelSize))
+      .filter((c): c is TireClearance => !!c);
+    if (clearances.length === 0) return [];
+    const maxWidth = Math.min(...clearances.map(c => getMaxWidth(c, margin)));
+
+    // Widest tire that still fits, same wheel size
+    return catalog
+      .filter(c => c.tire && c.id !== tireComp.id && Standards.getTireClearance(clearances, c.tire.diameter) &&
+        Standards.getTireWidthMm(c.tire.width) <= maxWidth)
+      .sort((a, b) => Standards.getTireWidthMm(b.tire!.width) - Standards.getTireWidthMm(a.tire!.width))
+      .map(alt => catalogSolution('replace', alt, `Use ${componentName(alt)} (${Math.round(Standards.getTireWidthMm(alt.tire!.width))}mm), which clears ${issue.components[1]}.`, 'easy', 90));
+  }
+};
@@ -0,0 +1,108 @@
+// lib/compatibility/rules/tire-rim.ts
+
+import { Standards } from '@/lib/standards'
+import { CompatibilityIssue, CompatibilitySolution, Component } from '@/types/gear-calculator'
+import { CompatibilityRule } from '@/types/compatibility'
+import { catalogSolution, componentName, createSolution } from '@/lib/compatibility/helpers'
+
+const getTireBsd = (tire: Component): number | undefined =>
+  (tire.tire!.etrto && Standards.parseEtrtoBsd(tire.tire!.etrto)) || Standards.BEAD_SEAT_DIAMETERS[String(tire.tire!.diameter)];
+
+const getRimBsd = (wheel: Component): number | undefined =>
+  wheel.wheel!.bsd || (wheel.wheel!.etrto && Standards.parseEtrtoBsd(wheel.wheel!.etrto)) || Standards.BEAD_SEAT_DIAMETERS[String(wheel.wheel!.diameter)];
+
+// Tire seats on the rim: same bead seat, a width ETRTO recommends, and hookless approval where it matters
+export const tireRimRule: CompatibilityRule = {
+  id: 'tire-rim',
+  description: 'Tire bead seat, width and hookless rating suit the rim',
+  categories: ['TIRE', 'WHEEL'],
+  suggests: ['TIRE'],
+  check: ({ setup }) => {
+    const issues: CompatibilityIssue[] = [];
+    const solutions: CompatibilitySolution[] = [];
+    const tireComp = setup.tire!;
+    const wheelComp = setup.wheel!;
+    const tire = tireComp.tire;
+    const wheel = wheelComp.wheel;
+    if (!tire || !wheel) return { issues, solutions };
+
+    const names = [componentName(tireComp), componentName(wheelComp)];
+    const componentIds = [tireComp.id, wheelComp.id];
+    const cost = tireComp.msrp || 60;
+    const tireBsd = getTireBsd(tireComp);
+    const rimBsd = getRimBsd(wheelComp);
+    if (tireBsd && rimBsd && tireBsd !== rimBsd) {
+      issues.push({
+        type: 'rim',
+        severity: 'critical',
+        message: `${names[0]} has a ${tireBsd}mm bead seat but ${names[1]} is ${rimBsd}mm.`,
+        components: names,
+        componentIds,
+        costToFix: cost,
+        estimatedCost: cost
+      });
+      solutions.push(createSolution('replace', `Use a ${rimBsd}mm bead seat tire.`, cost, 'easy', names, 100));
+      return { issues, solutions };
+    }
+
+    const hookless = wheel.rimType === 'HOOKLESS';
+    const width = Math.round(Standards.getTireWidthMm(tire.width));
+    if (wheel.width) {
+      const range = Standards.getRimTireRange(wheel.width, wheel.rimType);
+      if (!range) {
+        issues.push({
+          type: 'rim',
+          severity: 'critical',
+          message: `${names[1]} is ${wheel.width}mm internal; no tire is rated for a hookless rim that narrow.`,
+          components: names,
+          componentIds,
+          estimatedCost: wheelComp.msrp || 300
+        });
+      } else if (width < range[0] || width > range[1]) {
+        // An out-of-range tire can blow off a hookless rim; on a hooked rim it mostly handles badly
+        issues.push({
+          type: 'rim',
+          severity: hookless ? 'critical' : 'high',
+          message: `ETRTO recommends ${range[0]}-${range[1]}mm tires on a ${wheel.width}mm ${hookless ? 'hookless' : 'hooked'} rim; the ${width}mm ${names[0]} is ${width < range[0] ? 'too narrow' : 'too wide'}.`,
+          components: names,
+          componentIds,
+          costToFix: cost,
+          estimatedCost: cost
+        });
+        solutions.push(createSolution('replace', `Use a ${range[0]}-${range[1]}mm tire on this rim.`, cost, 'easy', names, 95));
+      }
+    }
+
+    if (hookless && tire.hooklessApproved !== true) {
+      issues.push({
+        type: 'rim',
+        severity: tire.hooklessApproved === false ? 'critical' : 'medium',
+        message: tire.hooklessApproved === false
+          ? `${names[0]} is not approved for hookless rims like ${names[1]}.`
+          : `${names[0]} is not confirmed as hookless-approved; check the tire maker's list before mounting on ${names[1]}.`,
+        components: names,
+        componentIds,
+        costToFix: cost,
+        estimatedCost: cost
+      });
+      solutions.push(createSolution('replace', 'Use a hookless-approved tubeless tire.', cost, 'easy', names, 95));
+    }
+
+    return { issues, solutions };
+  },
+  solve: (_issue, { setup, catalog }) => {
+    const tireComp = setup.tire!;
+    const wheel = setup.wheel!.wheel!;
+    const rimBsd = getRimBsd(setup.wheel!);
+    const range = wheel.width ? Standards.getRimTireRange(wheel.width, wheel.rimType) : null;
+    const hookless = wheel.rimType === 'HOOKLESS';
+    return catalog
+      .filter(c => {
+        if (!c.tire || c.id === tireComp.id || (rimBsd && getTireBsd(c) !== rimBsd)) return false;
+        if (hookless && c.tire.hooklessApproved !== true) return false;
+        const width = Standards.getTireWidthMm(c.tire.width);
+        return !range || (width >= range[0] && width <= range[1]);
+      })
+      .map(alt => catalogSolution('replace', alt, `Use ${componentName(alt)} (${Math.round(Standards.getTireWidthMm(alt.tire!.width))}mm${hookless ? ', hookless-approved' : ''}).`, 'easy', 95));
+  }
+};
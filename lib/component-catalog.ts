@@ -0,0 +1,222 @@
+// lib/component-catalog.ts
+// Maps Prisma component rows to the app's Component shape and turns catalog queries into
+// Prisma filters. Holds no client, so pages can share the query helpers with the API routes.
+//
+// The schema only stores drivetrain, hub, wheel and tire specs, so catalog frames, forks, brakes,
+// rotors and bottom brackets arrive as bare parts. The engine's SPEC_REQUIREMENTS list each gap
+// in the confidence breakdown instead of letting those checks pass silently.
+
+import type { Prisma, AxleType as DbAxleType, ComponentCategory as DbComponentCategory } from '@prisma/client'
+import { CatalogPage, CatalogQuery } from '@/types/catalog'
+import { AxleType, Component, ComponentCategory, FreehubType } from '@/types/gear-calculator'
+
+// Relations loaded with every component
+export const CATALOG_INCLUDE = { cassette: true, chainring: true, chain: true, hub: true, derailleur: true, tire: true, wheel: true } as const;
+
+export type CatalogRecord = Prisma.ComponentGetPayload<{ include: typeof CATALOG_INCLUDE }>;
+
+export class ComponentCatalog {
+
+  static DEFAULT_PAGE_SIZE = 50;
+  static MAX_PAGE_SIZE = 200;
+
+  // The schema's axle enum predates the spacing-based one; 15mm rear axles have no equivalent
+  static AXLE_TYPES: Record<DbAxleType, AxleType | undefined> = {
+    QR_FRONT: 'QR_100',
+    QR_REAR: 'QR_135',
+    THRU_AXLE_12_FRONT: 'TA_100x12',
+    THRU_AXLE_12_REAR: 'TA_142x12',
+    THRU_AXLE_15_FRONT: 'TA_100x15',
+    THRU_AXLE_15_REAR: undefined,
+    BOOST_FRONT: 'TA_110x15_BOOST',
+    BOOST_REAR: 'TA_148x12_BOOST',
+  };
+
+  // Categories the schema has; the others never match a catalog query
+  static DB_CATEGORIES: DbComponentCategory[] = [
+    'CASSETTE', 'CHAINRING', 'CHAIN', 'HUB', 'DERAILLEUR', 'TIRE', 'WHEEL', 'CRANK', 'BOTTOM_BRACKET', 'SHIFTER', 'BRAKE', 'FORK', 'SHOCK', 'FRAME'
+  ];
+
+  static CATEGORIES: ComponentCategory[] = [
+    'CASSETTE', 'CHAINRING', 'CRANKSET', 'CHAIN', 'WHEEL', 'TIRE', 'DERAILLEUR', 'HUB', 'CRANK', 'BOTTOM_BRACKET', 'SHIFTER', 'BRAKE',
+    'FORK', 'SHOCK', 'FRAME', 'INTERNAL_GEAR_HUB', 'GEARBOX', 'SPROCKET', 'FREEHUB_BODY', 'ROTOR', 'BRAKE_ADAPTER', 'BRAKE_PAD', 'HANDLEBAR', 'STEM'
+  ];
+  static FREEHUB_TYPES: FreehubType[] = [
+    'SHIMANO_HG', 'SHIMANO_HG_L', 'SHIMANO_HG_L2', 'SRAM_XD', 'SRAM_XDR', 'CAMPAGNOLO', 'CAMPAGNOLO_N3W', 'N3W', 'MICRO_SPLINE',
+    'DTSWISS_350', 'DTSWISS_240', 'ROTOR_HG'
+  ];
+
+  // Why a query can't be run, so the API can answer 400 rather than pass bad enum values to Prisma
+  static validateQuery(params: URLSearchParams): string | undefined {
+    const category = params.get('category');
+    if (category && !this.CATEGORIES.find(c => c === category)) return `Unknown category '${category}'`;
+    const freehubType = params.get('freehubType');
+    if (freehubType && !this.FREEHUB_TYPES.find(t => t === freehubType)) return `Unknown freehubType '${freehubType}'`;
+    return undefined;
+  }
+
+  // Unknown enum values are dropped; see validateQuery
+  static parseQuery(params: URLSearchParams): CatalogQuery {
+    const number = (key: string): number | undefined => {
+      const value = params.get(key);
+      if (value === null || value === '') return undefined;
+      const parsed = parseFloat(value);
+      return isNaN(parsed) ? undefined : parsed;
+    };
+    const pageSize = Math.min(Math.max(Math.floor(number('pageSize') || this.DEFAULT_PAGE_SIZE), 1), this.MAX_PAGE_SIZE);
+    return {
+      category: this.CATEGORIES.find(c => c === params.get('category')),
+      manufacturer: params.get('manufacturer') || undefined,
+      search: params.get('search') || undefined,
+      speeds: number('speeds'),
+      freehubType: this.FREEHUB_TYPES.find(t => t === params.get('freehubType')),
+      minCog: number('minCog'),
+      maxCog: number('maxCog'),
+      minWeight: number('minWeight'),
+      maxWeight: number('maxWeight'),
+      minPrice: number('minPrice'),
+      maxPrice: number('maxPrice'),
+      page: Math.max(Math.floor(number('page') || 1), 1),
+      pageSize
+    };
+  }
+
+  static toSearchParams(query: Partial<CatalogQuery>): URLSearchParams {
+    const params = new URLSearchParams();
+    Object.keys(query).forEach(key => {
+      const value = query[key as keyof CatalogQuery];
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    return params;
+  }
+
+  // Categories the schema stores; CRANKSET is its CRANK, and ones it lacks are dropped
+  static toDbCategories(categories: ComponentCategory[]): DbComponentCategory[] {
+    return categories
+      .map(category => category === 'CRANKSET' ? 'CRANK' : this.DB_CATEGORIES.find(c => c === category))
+      .filter((category): category is DbComponentCategory => category !== undefined);
+  }
+
+  // Cog range is checked in memory: Prisma cannot filter on the ends of an array column
+  static buildWhere(query: CatalogQuery): Prisma.ComponentWhereInput {
+    const and: Prisma.ComponentWhereInput[] = [];
+    const range = (min?: number, max?: number) => {
+      if (min === undefined && max === undefined) return undefined;
+      return { ...(min !== undefined ? { gte: min } : {}), ...(max !== undefined ? { lte: max } : {}) };
+    };
+
+    if (query.category) and.push({ category: { in: this.toDbCategories([query.category]) } });
+    if (query.manufacturer) and.push({ manufacturer: { equals: query.manufacturer, mode: 'insensitive' } });
+    if (query.search) {
+      and.push({ OR: [
+        { manufacturer: { contains: query.search, mode: 'insensitive' } },
+        { model: { contains: query.search, mode: 'insensitive' } }
+      ] });
+    }
+    if (query.speeds !== undefined) {
+      and.push({ OR: [
+        { cassette: { speeds: query.speeds } },
+        { chain: { speeds: query.speeds } },
+        { derailleur: { speeds: query.speeds } }
+      ] });
+    }
+    if (query.freehubType) {
+      and.push({ OR: [
+        { cassette: { freehubType: query.freehubType } },
+        { hub: { freehubTypes: { has: query.freehubType } } }
+      ] });
+    }
+    if (query.minCog !== undefined || query.maxCog !== undefined) and.push({ cassette: { isNot: null } });
+    const weight = range(query.minWeight, query.maxWeight);
+    if (weight) and.push({ weightGrams: weight });
+    const price = range(query.minPrice, query.maxPrice);
+    if (price) and.push({ msrp: price });
+
+    return and.length > 0 ? { AND: and } : {};
+  }
+
+  static matchesCogRange(component: Component, query: CatalogQuery): boolean {
+    if (query.minCog === undefined && query.maxCog === undefined) return true;
+    const cogs = component.cassette?.cogs;
+    if (!cogs || cogs.length === 0) return false;
+    if (query.minCog !== undefined && Math.min(...cogs) > query.minCog) return false;
+    return query.maxCog === undefined || Math.max(...cogs) >= query.maxCog;
+  }
+
+  static fromRecord(record: CatalogRecord): Component {
+    const optional = <T>(value: T | null | undefined): T | undefined => value === null ? undefined : value;
+    const component: Component = {
+      id: record.id,
+      manufacturer: record.manufacturer,
+      model: record.model,
+      year: optional(record.year),
+      weightGrams: optional(record.weightGrams),
+      msrp: optional(record.msrp),
+      verifiedWeight: record.verifiedWeight,
+      imageUrl: optional(record.imageUrl),
+      // The schema names the crank arm set CRANK; the engine's rules look for CRANKSET
+      category: record.category === 'CRANK' ? 'CRANKSET' : record.category
+    };
+
+    if (record.cassette) {
+      component.cassette = { speeds: record.cassette.speeds, cogs: record.cassette.cogs, freehubType: record.cassette.freehubType };
+    }
+    if (record.chainring) {
+      component.chainring = { teeth: record.chainring.teeth, bcd: optional(record.chainring.bcd), offset: optional(record.chainring.offset) };
+    }
+    if (record.chain) {
+      component.chain = { speeds: record.chain.speeds, material: optional(record.chain.material), links: optional(record.chain.links) };
+    }
+    if (record.hub) {
+      component.hub = {
+        freehubTypes: record.hub.freehubTypes,
+        frontSpacing: optional(record.hub.frontSpacing),
+        rearSpacing: optional(record.hub.rearSpacing),
+        axleType: record.hub.axleType ? this.AXLE_TYPES[record.hub.axleType] : undefined
+      };
+    }
+    if (record.derailleur) {
+      component.derailleur = {
+        speeds: record.derailleur.speeds,
+        capacity: optional(record.derailleur.maxCapacity),
+        cageLength: optional(record.derailleur.cageLength)
+      };
+    }
+    if (record.tire) {
+      component.tire = {
+        width: record.tire.width,
+        diameter: record.tire.diameter,
+        compound: optional(record.tire.compound),
+        casing: optional(record.tire.casing),
+        tpi: optional(record.tire.tpi)
+      };
+    }
+    if (record.wheel) {
+      component.wheel = {
+        diameter: record.wheel.diameter,
+        width: optional(record.wheel.width),
+        material: optional(record.wheel.material),
+        spokeCount: optional(record.wheel.spokeCount)
+      };
+    }
+    return component;
+  }
+
+  // Client side: one page of the catalog from the API
+  static async fetchPage(query: Partial<CatalogQuery> = {}): Promise<CatalogPage> {
+    const response = await fetch(`/api/components?${this.toSearchParams(query).toString()}`);
+    if (!response.ok) throw new Error(`Component catalog returned ${response.status}`);
+    return response.json();
+  }
+
+  // Every page, for pickers that show the whole catalog
+  static async fetchAll(query: Partial<CatalogQuery> = {}): Promise<Component[]> {
+    const first = await this.fetchPage({ ...query, page: 1, pageSize: this.MAX_PAGE_SIZE });
+    const components = first.components.slice();
+    for (let page = 2; page <= first.totalPages; page++) {
+      const next = await this.fetchPage({ ...query, page, pageSize: this.MAX_PAGE_SIZE });
+      components.push(...next.components);
+    }
+    return components;
+  }
+}
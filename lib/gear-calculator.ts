@@ -2,13 +2,28 @@
 
 import { 
   BikeSetup, 
+  BottomBracketResult,
   ComparisonResults, 
   Component,
   CompatibilityStatus,
   CompatibilityIssue,
   GearRatio,
+  GearExtremeMetric,
+  ShiftAnalysis,
+  ShiftAnalysisOptions,
+  ShiftStep,
+  GearOverlap,
+  EfficiencyMetrics,
+  CrossChainingIssue,
   ChainLengthResult,
+  ChainLengthMethod,
+  ChainLengthOptions,
+  ChainGrowthPoint,
+  SuspensionParams,
+  SuspensionChainResult,
   ChainlineResult,
+  ChainlineOptions,
+  ChainAngle,
   PerformanceMetrics,
   WeightComparison,
   CostAnalysis,
@@ -17,45 +32,145 @@ import {
   RangeMetric,
   CalculatorParams,
 } from '@/types/gear-calculator'
+import { SpeedModel } from '@/lib/speed-model'
+import { Standards } from '@/lib/standards'
+import { CompatibilityEngine } from '@/lib/compatibility'
 
 export class GearCalculator {
 
-  // Helper to get chainring teeth from either chainring or crankset component
-  private static getChainringTeeth(setup: BikeSetup): number {
+  static DEFAULT_CRANK_LENGTH = 170; // mm
+  static INCH_TO_MM = 25.4;
+  static DEFAULT_WHEEL_DIAMETER = 29; // inches, used when no wheel/tire is selected
+  static DEFAULT_WHEEL_CIRCUMFERENCE = 29 * 25.4 * Math.PI; // mm
+  static CHAIN_PITCH = 12.7; // mm, one link
+
+  // ETRTO bead seat diameter (mm) by nominal wheel size
+  static BEAD_SEAT_DIAMETERS: Record<string, number> = Standards.BEAD_SEAT_DIAMETERS;
+
+  // Centre-to-centre cog spacing by cassette speed count, in mm
+  static COG_PITCH: Record<number, number> = { 7: 5.0, 8: 4.8, 9: 4.34, 10: 3.95, 11: 3.74, 12: 3.6, 13: 3.4 };
+  static CHAINRING_SPACING = 5; // mm between adjacent rings on 2x/3x cranks
+
+  // Chain deflection thresholds (degrees) and the efficiency cost beyond the optimal angle
+  static OPTIMAL_DEFLECTION = 1.0;
+  static CROSS_CHAIN_THRESHOLDS = { low: 2.0, medium: 2.5, high: 3.0 };
+  static LOSS_PER_DEGREE = 0.5; // % drivetrain efficiency lost per degree past optimal
+
+  static DUPLICATE_GEAR_THRESHOLD = 3; // %
+  static GAP_THRESHOLD = 18; // %
+
+  static CVT_SAMPLE_POINTS = 10; // points used to tabulate stepless hubs such as Enviolo
+
+  // Total capacity (teeth) assumed when only the cage length is known
+  static CAGE_CAPACITY: Record<'short' | 'medium' | 'long', number> = { short: 33, medium: 39, long: 45 };
+
+  static DEFAULT_SAG = 30; // % of travel
+  static DEFAULT_BB_DROP = 30; // mm the rear axle sits above the BB
+  static SUSPENSION_STEPS = 10;
+
+  // SRAM chain length charts: links by chainstay length (mm, at sag) and chainring size
+  static SRAM_CHART_CHAINRINGS = [28, 30, 32, 34, 36, 38];
+  static SRAM_EAGLE_CHAIN_LENGTHS = [
+    { maxChainstay: 415, links: [114, 116, 116, 118, 118, 120] },
+    { maxChainstay: 425, links: [116, 116, 118, 118, 120, 120] },
+    { maxChainstay: 435, links: [116, 118, 118, 120, 120, 122] },
+    { maxChainstay: 445, links: [118, 118, 120, 120, 122, 122] },
+    { maxChainstay: 455, links: [118, 120, 120, 122, 122, 124] },
+    { maxChainstay: 465, links: [120, 120, 122, 122, 124, 124] },
+    { maxChainstay: 480, links: [120, 122, 122, 124, 124, 126] },
+  ];
+  static SRAM_TRANSMISSION_CHAIN_LENGTHS = [
+    { maxChainstay: 415, links: [116, 118, 118, 120, 120, 122] },
+    { maxChainstay: 425, links: [118, 118, 120, 120, 122, 122] },
+    { maxChainstay: 435, links: [118, 120, 120, 122, 122, 124] },
+    { maxChainstay: 445, links: [120, 120, 122, 122, 124, 124] },
+    { maxChainstay: 455, links: [120, 122, 122, 124, 124, 126] },
+    { maxChainstay: 465, links: [122, 122, 124, 124, 126, 126] },
+    { maxChainstay: 480, links: [122, 124, 124, 126, 126, 128] },
+  ];
+
+  // Helper to get chainring teeth from either chainring or crankset component.
+  // A standalone chainring replaces the crankset's stock rings; returned smallest first.
+  private static getChainrings(setup: BikeSetup): number[] {
     if (setup.chainring?.chainring?.teeth) {
-      return setup.chainring.chainring.teeth;
+      return [setup.chainring.chainring.teeth];
     }
     if (setup.crankset?.crankset?.chainrings && setup.crankset.crankset.chainrings.length > 0) {
-      // For 1x setups, take the first/only chainring
-      return setup.crankset.crankset.chainrings[0];
+      return [...setup.crankset.crankset.chainrings].sort((a, b) => a - b);
+    }
+    return [];
+  }
+
+  // Front chainline is the centre of the ring set; falls back to typical 1x / road 2x values
+  // Crankset spec first, then the frame's BB shell standard; a swapped direct-mount ring moves the line by its extra offset
+  private static getFrontChainline(setup: BikeSetup): number {
+    const chainringCount = this.getChainrings(setup).length;
+    const bbShell = setup.frame?.frame?.bbShell;
+    let chainline = setup.crankset?.crankset?.chainline
+      || (bbShell ? Standards.getFrontChainline(bbShell, chainringCount) : (chainringCount > 1 ? 43.5 : 50));
+    const ringOffset = setup.chainring?.chainring?.offset;
+    const crankOffset = setup.crankset?.crankset?.offset;
+    if (setup.crankset && ringOffset !== undefined && crankOffset !== undefined) {
+      chainline -= ringOffset - crankOffset;
     }
-    return 0;
+    return chainline;
+  }
+
+  // Rear chainline is the centre of the cassette, set by hub spacing; falls back to the front when unknown
+  private static getRearChainline(setup: BikeSetup): number {
+    const hub = setup.hub?.hub;
+    const frame = setup.frame?.frame;
+    const rearSpacing = (hub?.axleType ? Standards.AXLES[hub.axleType].spacing : hub?.rearSpacing)
+      || (frame?.axleType ? Standards.AXLES[frame.axleType].spacing : frame?.rearSpacing);
+    if (!rearSpacing) return this.getFrontChainline(setup);
+    // A road double is the best hint that a 135/142 hub is a road disc hub
+    const chainrings = this.getChainrings(setup);
+    const road = chainrings.length > 1 && Math.max(...chainrings) >= 46;
+    return Standards.getRearChainline(rearSpacing, road);
+  }
+
+  private static getChainringPosition(frontChainline: number, chainringIndex: number, chainringCount: number): number {
+    return frontChainline + (chainringIndex - (chainringCount - 1) / 2) * this.CHAINRING_SPACING;
+  }
+
+  // Smallest cog (index 0) sits outboard
+  private static getCogPosition(rearChainline: number, cogIndex: number, cogCount: number, pitch: number): number {
+    return rearChainline + ((cogCount - 1) / 2 - cogIndex) * pitch;
+  }
+
+  private static getCrankLength(setup: BikeSetup): number {
+    return setup.crankset?.crankset?.crankLength || this.DEFAULT_CRANK_LENGTH;
   }
   
   /**
    * Main comparison function - compares two complete setups
    */
-  static compareSetups(current: BikeSetup, proposed: BikeSetup, params: CalculatorParams): ComparisonResults {
+  static compareSetups(current: BikeSetup, proposed: BikeSetup, params: CalculatorParams, catalog?: Component[]): ComparisonResults {
     const performance = this.calculatePerformanceMetrics(current, proposed, params);
     const weight = this.calculateWeightComparison(current, proposed);
     
     // Chainline and Chain Length need to be calculated before compatibility
-    const proposedChainringTeeth = this.getChainringTeeth(proposed);
-    const proposedLargestCog = proposed.cassette?.cassette ? Math.max(...proposed.cassette.cassette.cogs) : 0;
+    const proposedChainrings = this.getChainrings(proposed);
+    const proposedLargestChainring = proposedChainrings.length > 0 ? Math.max(...proposedChainrings) : 0;
+    const proposedLargestCog = proposed.internalGear?.internalGear
+      ? proposed.sprocket?.sprocket?.teeth || 0
+      : proposed.cassette?.cassette ? Math.max(...proposed.cassette.cassette.cogs) : 0;
     
     const chainLength = this.calculateChainLength(
-      proposedChainringTeeth,
+      proposedLargestChainring,
       proposedLargestCog,
-      params.chainstayLength || 430 // Default chainstay length if not provided
+      params.chainstayLength || 430, // Default chainstay length if not provided
+      {
+        method: this.getChainLengthMethod(proposed),
+        smallestChainring: proposedChainrings.length > 0 ? Math.min(...proposedChainrings) : undefined,
+        smallestCog: proposed.cassette?.cassette ? Math.min(...proposed.cassette.cassette.cogs) : undefined,
+        derailleurCapacity: proposed.derailleur?.derailleur?.capacity
+      }
     );
 
-    const chainline = this.analyzeChainline(
-      proposed.crankset?.crankset?.offset || 0,
-      0, // Assuming cassette center is 0 for simplicity
-      params.chainstayLength || 430
-    );
+    const chainline = this.analyzeSetupChainline(proposed, params.chainstayLength || 430);
 
-    const compatibility = this.checkCompatibility(current, proposed, chainline);
+    const compatibility = this.checkCompatibility(current, proposed, chainline, catalog);
     const cost = this.calculateCostAnalysis(current, proposed, compatibility);
 
     return {
@@ -64,24 +179,27 @@ export class GearCalculator {
       compatibility,
       cost,
       chainLength,
-      chainline
+      chainline,
+      bottomBracket: this.analyzeBottomBracket(current, proposed)
     };
   }
 
   static calculatePerformanceMetrics(current: BikeSetup, proposed: BikeSetup, params: CalculatorParams): PerformanceMetrics {
-    const { wheelDiameter = 29, cadence = 90 } = params;
+    const { cadence = 90 } = params;
+    const currentCircumference = this.calculateWheelCircumference(current, params);
+    const proposedCircumference = this.calculateWheelCircumference(proposed, params);
 
-    const currentChainringTeeth = this.getChainringTeeth(current);
-    const proposedChainringTeeth = this.getChainringTeeth(proposed);
+    const gearRatios = this.generateSetupGearRatios(proposed, proposedCircumference);
+    const currentGearRatios = this.generateSetupGearRatios(current, currentCircumference);
 
-    const currentTopSpeed = this.calculateTopSpeed(current.cassette, currentChainringTeeth, wheelDiameter, cadence);
-    const proposedTopSpeed = this.calculateTopSpeed(proposed.cassette, proposedChainringTeeth, wheelDiameter, cadence);
+    const currentTopSpeed = this.calculateTopSpeed(currentGearRatios, currentCircumference, cadence);
+    const proposedTopSpeed = this.calculateTopSpeed(gearRatios, proposedCircumference, cadence);
     
-    const currentClimbingGear = this.calculateClimbingGear(current.cassette, currentChainringTeeth);
-    const proposedClimbingGear = this.calculateClimbingGear(proposed.cassette, proposedChainringTeeth);
+    const currentClimbingGear = this.calculateClimbingGear(currentGearRatios);
+    const proposedClimbingGear = this.calculateClimbingGear(gearRatios);
     
-    const currentGearRange = this.calculateGearRange(current.cassette, currentChainringTeeth);
-    const proposedGearRange = this.calculateGearRange(proposed.cassette, proposedChainringTeeth);
+    const currentGearRange = this.calculateGearRange(currentGearRatios);
+    const proposedGearRange = this.calculateGearRange(gearRatios);
 
     const topSpeed: SpeedMetric = {
       current: currentTopSpeed,
@@ -98,6 +216,13 @@ export class GearCalculator {
       difference: Math.round((proposedClimbingGear - currentClimbingGear) * 100) / 100
     };
 
+    const wheelCircumference: GearMetric = {
+      current: currentCircumference,
+      proposed: proposedCircumference,
+      unit: 'mm',
+      difference: proposedCircumference - currentCircumference
+    };
+
     const gearRange: RangeMetric = {
       current: currentGearRange,
       proposed: proposedGearRange,
@@ -105,50 +230,340 @@ export class GearCalculator {
       difference: proposedGearRange - currentGearRange
     };
 
-    const gearRatios = this.generateGearRatios(proposed.cassette, proposedChainringTeeth);
+    const chainstayLength = params.chainstayLength || 430;
+    const currentCrossChaining = this.analyzeCrossChaining(current, chainstayLength);
+    const proposedCrossChaining = this.analyzeCrossChaining(proposed, chainstayLength);
+    const efficiency: EfficiencyMetrics = {
+      crossChaining: {
+        current: currentCrossChaining.issues,
+        proposed: proposedCrossChaining.issues,
+        improvement: currentCrossChaining.efficiencyLoss > 0
+          ? Math.round(((currentCrossChaining.efficiencyLoss - proposedCrossChaining.efficiencyLoss) / currentCrossChaining.efficiencyLoss) * 100)
+          : 0
+      },
+      optimalGears: proposedCrossChaining.optimalGears,
+      efficiencyLoss: proposedCrossChaining.efficiencyLoss
+    };
+
+    const shiftOptions: ShiftAnalysisOptions = {
+      cadence,
+      speedBand: params.cruisingSpeedMin || params.cruisingSpeedMax
+        ? { min: params.cruisingSpeedMin || 0, max: params.cruisingSpeedMax || Infinity }
+        : undefined
+    };
+    const currentShiftSteps = this.analyzeShiftSteps(currentGearRatios, shiftOptions);
+    const proposedShiftSteps = this.analyzeShiftSteps(gearRatios, shiftOptions);
+    const stepDifference = proposedShiftSteps.bandAverageStep - currentShiftSteps.bandAverageStep;
+
+    // generateGearRatios sorts hardest gear first
+    const lowestGear: GearExtremeMetric = {
+      current: currentGearRatios[currentGearRatios.length - 1],
+      proposed: gearRatios[gearRatios.length - 1]
+    };
+    const highestGear: GearExtremeMetric = {
+      current: currentGearRatios[0],
+      proposed: gearRatios[0]
+    };
 
     return {
       topSpeed,
       climbingGear,
       gearRange,
+      wheelCircumference,
+      lowestGear,
+      highestGear,
       gearRatios,
-      efficiency: { crossChaining: { current: [], proposed: [], improvement: 0 }, optimalGears: [], efficiencyLoss: 0 } // Placeholder
+      currentGearRatios,
+      efficiency,
+      shiftSteps: {
+        current: currentShiftSteps,
+        proposed: proposedShiftSteps,
+        smoother: Math.abs(stepDifference) < 0.5 ? 'equal' : stepDifference < 0 ? 'proposed' : 'current'
+      },
+      physics: {
+        current: SpeedModel.analyzeSetup(currentGearRatios, params),
+        proposed: SpeedModel.analyzeSetup(gearRatios, params)
+      }
     };
   }
   
-  static calculateTopSpeed(cassetteComp: Component | undefined, chainringTeeth: number, wheelDiameter: number, cadence: number): number {
-    if (!cassetteComp?.cassette?.cogs || !chainringTeeth) return 0;
-    const smallestCog = Math.min(...cassetteComp.cassette.cogs);
-    const gearRatio = chainringTeeth / smallestCog;
-    const wheelCircumference = wheelDiameter * Math.PI;
-    const speedMph = (gearRatio * wheelCircumference * cadence * 60) / 63360;
+  // Effective chainring/cog ratio, including the internal gear of a hub or gearbox
+  static getDriveRatio(gear: GearRatio): number {
+    return (gear.chainring / gear.cog) * (gear.internalRatio ?? 1);
+  }
+
+  // Top speed uses the hardest gear: largest chainring on the smallest cog
+  static calculateTopSpeed(gearRatios: GearRatio[], wheelCircumference: number, cadence: number): number {
+    if (gearRatios.length === 0) return 0;
+    const gearRatio = Math.max(...gearRatios.map(gear => this.getDriveRatio(gear)));
+    const speedMph = (gearRatio * wheelCircumference * cadence * 60) / 1609344;
     return Math.round(speedMph * 10) / 10;
   }
 
-  static calculateClimbingGear(cassetteComp: Component | undefined, chainringTeeth: number): number {
-    if (!cassetteComp?.cassette?.cogs || !chainringTeeth) return 0;
-    const largestCog = Math.max(...cassetteComp.cassette.cogs);
-    return Math.round((chainringTeeth / largestCog) * 100) / 100;
+  // Climbing gear uses the easiest gear: smallest chainring on the largest cog
+  static calculateClimbingGear(gearRatios: GearRatio[]): number {
+    if (gearRatios.length === 0) return 0;
+    return Math.round(Math.min(...gearRatios.map(gear => this.getDriveRatio(gear))) * 100) / 100;
+  }
+
+  // Overall range across every ring, i.e. hardest gear vs easiest gear
+  static calculateGearRange(gearRatios: GearRatio[]): number {
+    if (gearRatios.length === 0) return 0;
+    const driveRatios = gearRatios.map(gear => this.getDriveRatio(gear));
+    return Math.round(((Math.max(...driveRatios) / Math.min(...driveRatios)) - 1) * 100);
   }
 
-  static calculateGearRange(cassetteComp: Component | undefined, chainringTeeth: number): number {
-    if (!cassetteComp?.cassette?.cogs || !chainringTeeth) return 0;
-    const largestCog = Math.max(...cassetteComp.cassette.cogs);
-    const smallestCog = Math.min(...cassetteComp.cassette.cogs);
-    return Math.round(((largestCog / smallestCog) - 1) * 100);
+  // Gear table for whichever drivetrain the setup uses: internal gear hub/gearbox or derailleur
+  static generateSetupGearRatios(setup: BikeSetup, wheelCircumference: number = this.DEFAULT_WHEEL_CIRCUMFERENCE): GearRatio[] {
+    const chainrings = this.getChainrings(setup);
+    const crankLength = this.getCrankLength(setup);
+    if (setup.internalGear?.internalGear) {
+      return this.generateInternalGearRatios(setup.internalGear, chainrings, setup.sprocket?.sprocket?.teeth || 0, wheelCircumference, crankLength);
+    }
+    return this.generateGearRatios(setup.cassette, chainrings, wheelCircumference, crankLength);
   }
 
-  static generateGearRatios(cassetteComp: Component | undefined, chainringTeeth: number): GearRatio[] {
-    if (!cassetteComp?.cassette?.cogs || !chainringTeeth) return [];
-    return cassetteComp.cassette.cogs.map(cog => ({
-      chainring: chainringTeeth,
-      cog: cog,
-      ratio: Math.round((chainringTeeth / cog) * 100) / 100
+  /**
+   * Gear table for internal gear hubs and gearboxes: chainring/sprocket times each internal ratio.
+   * Stepless hubs are sampled at CVT_SAMPLE_POINTS evenly spaced (geometric) points across their range.
+   * cogIndex 0 is the hardest internal gear so the table lines up with derailleur conventions.
+   */
+  static generateInternalGearRatios(internalComp: Component, chainrings: number[], sprocketTeeth: number, wheelCircumference: number = this.DEFAULT_WHEEL_CIRCUMFERENCE, crankLength: number = this.DEFAULT_CRANK_LENGTH): GearRatio[] {
+    const internal = internalComp.internalGear;
+    if (!internal || internal.ratios.length === 0 || chainrings.length === 0 || !sprocketTeeth) return [];
+    let internalRatios = [...internal.ratios].sort((a, b) => a - b);
+    if (internal.continuous) {
+      const low = internalRatios[0];
+      const high = internalRatios[internalRatios.length - 1];
+      const step = Math.pow(high / low, 1 / (this.CVT_SAMPLE_POINTS - 1));
+      internalRatios = Array.from({ length: this.CVT_SAMPLE_POINTS }, (_, i) => low * Math.pow(step, i));
+    }
+    const chainring = Math.max(...chainrings);
+    return internalRatios.map((internalRatio, index) => ({
+      chainring,
+      cog: sprocketTeeth,
+      chainringIndex: 0,
+      cogIndex: internalRatios.length - 1 - index,
+      internalGear: index + 1,
+      internalRatio,
+      ...this.calculateGearMeasures((chainring / sprocketTeeth) * internalRatio, wheelCircumference, crankLength)
     })).sort((a, b) => b.ratio - a.ratio);
   }
 
+  // Every chainring x cog combination, hardest gear first.
+  // chainringIndex counts from the smallest ring, cogIndex from the smallest cog.
+  static generateGearRatios(cassetteComp: Component | undefined, chainrings: number[], wheelCircumference: number = this.DEFAULT_WHEEL_CIRCUMFERENCE, crankLength: number = this.DEFAULT_CRANK_LENGTH): GearRatio[] {
+    if (!cassetteComp?.cassette?.cogs || chainrings.length === 0) return [];
+    const rings = [...chainrings].sort((a, b) => a - b);
+    const cogs = [...cassetteComp.cassette.cogs].sort((a, b) => a - b);
+    const ratios: GearRatio[] = [];
+    rings.forEach((chainring, chainringIndex) => {
+      cogs.forEach((cog, cogIndex) => {
+        ratios.push({ chainring, cog, chainringIndex, cogIndex, ...this.calculateGearMeasures(chainring / cog, wheelCircumference, crankLength) });
+      });
+    });
+    return ratios.sort((a, b) => b.ratio - a.ratio);
+  }
+
+  // Tire widths are stored in inches for MTB tires (2.4) and mm for road/gravel (28)
+  static getTireWidthMm(width: number): number {
+    return Standards.getTireWidthMm(width);
+  }
+
+  /**
+   * Rolling circumference in mm. A measured rollout always wins; otherwise it is derived from the
+   * ETRTO bead seat diameter plus twice the tire height (taken as the tire width), and finally from
+   * the bare wheel diameter in CalculatorParams when no tire is selected.
+   */
+  static calculateWheelCircumference(setup: BikeSetup, params: CalculatorParams = {}): number {
+    if (params.measuredRollout) return Math.round(params.measuredRollout);
+
+    const tire = setup.tire?.tire;
+    if (tire) {
+      const beadSeatDiameter = setup.wheel?.wheel?.bsd
+        || this.BEAD_SEAT_DIAMETERS[String(setup.wheel?.wheel?.diameter ?? tire.diameter)]
+        || this.BEAD_SEAT_DIAMETERS[String(tire.diameter)];
+      if (beadSeatDiameter) {
+        const tireHeight = this.getTireWidthMm(tire.width);
+        return Math.round(Math.PI * (beadSeatDiameter + 2 * tireHeight));
+      }
+    }
+
+    const wheelDiameter = params.wheelDiameter || this.DEFAULT_WHEEL_DIAMETER;
+    return Math.round(wheelDiameter * this.INCH_TO_MM * Math.PI);
+  }
+
+  /**
+   * Converts a raw chainring/cog ratio into the units riders and mechanics use:
+   * gear inches, metres travelled per crank revolution, and Sheldon Brown's gain ratio
+   * (wheel radius / crank length x gear ratio).
+   */
+  static calculateGearMeasures(rawRatio: number, wheelCircumference: number, crankLength: number = this.DEFAULT_CRANK_LENGTH) {
+    const wheelDiameterMm = wheelCircumference / Math.PI;
+    return {
+      ratio: Math.round(rawRatio * 100) / 100,
+      gearInches: Math.round(rawRatio * (wheelDiameterMm / this.INCH_TO_MM) * 10) / 10,
+      development: Math.round(rawRatio * wheelCircumference / 10) / 100,
+      gainRatio: Math.round((wheelDiameterMm / 2 / crankLength) * rawRatio * 100) / 100
+    };
+  }
+
+  /**
+   * Builds the shift sequence an optimal rider (or an electronic group's synchro mode) would use,
+   * then reports the % jump of every shift, near-duplicate gears and big gaps.
+   * On 2x/3x the smaller rings skip their smallest quarter of cogs and the bigger rings skip their
+   * largest quarter; a front shift is paired with a compensating rear shift to the next harder gear.
+   */
+  static analyzeShiftSteps(gearRatios: GearRatio[], options: ShiftAnalysisOptions = {}): ShiftAnalysis {
+    const {
+      duplicateThreshold = this.DUPLICATE_GEAR_THRESHOLD,
+      gapThreshold = this.GAP_THRESHOLD,
+      cadence = 90,
+      speedBand
+    } = options;
+    const empty: ShiftAnalysis = { sequence: [], steps: [], averageStep: 0, maxStep: 0, bandAverageStep: 0, bandMaxStep: 0, duplicates: [], gaps: [], uniqueGears: 0 };
+    if (gearRatios.length === 0) return empty;
+
+    const rawRatio = (gear: GearRatio) => this.getDriveRatio(gear);
+    const stepPercent = (from: GearRatio, to: GearRatio) => Math.round((rawRatio(to) / rawRatio(from) - 1) * 1000) / 10;
+    const speedMph = (gear: GearRatio) => (gear.development * cadence * 60) / 1609.344;
+
+    const ringCount = Math.max(...gearRatios.map(g => g.chainringIndex)) + 1;
+    const cogCount = Math.max(...gearRatios.map(g => g.cogIndex)) + 1;
+    const crossZone = ringCount > 1 ? Math.ceil(cogCount / 4) : 0;
+    const isAllowed = (gear: GearRatio) =>
+      !(gear.chainringIndex < ringCount - 1 && gear.cogIndex < crossZone) &&
+      !(gear.chainringIndex > 0 && gear.cogIndex >= cogCount - crossZone);
+    const gearAt = (ring: number, cog: number) => gearRatios.find(g => g.chainringIndex === ring && g.cogIndex === cog);
+
+    const sequence: GearRatio[] = [];
+    const steps: ShiftStep[] = [];
+    let cogIndex = cogCount - 1;
+    for (let ring = 0; ring < ringCount; ring++) {
+      const lastCog = ring === ringCount - 1 ? 0 : crossZone;
+      for (; cogIndex >= lastCog; cogIndex--) {
+        const gear = gearAt(ring, cogIndex);
+        if (!gear) continue;
+        const previous = sequence[sequence.length - 1];
+        if (previous) {
+          steps.push({ from: previous, to: gear, stepPercent: stepPercent(previous, gear), shift: 'rear', rearCompensation: 0 });
+        }
+        sequence.push(gear);
+      }
+      if (ring === ringCount - 1) break;
+
+      // Front shift: land on the easiest allowed gear of the next ring that is still harder than the current one
+      const current = sequence[sequence.length - 1];
+      const landing = gearRatios
+        .filter(g => g.chainringIndex === ring + 1 && isAllowed(g) && rawRatio(g) > rawRatio(current))
+        .sort((a, b) => rawRatio(a) - rawRatio(b))[0];
+      if (!landing) break;
+      steps.push({
+        from: current,
+        to: landing,
+        stepPercent: stepPercent(current, landing),
+        shift: 'front',
+        rearCompensation: landing.cogIndex - current.cogIndex
+      });
+      sequence.push(landing);
+      cogIndex = landing.cogIndex - 1;
+    }
+
+    // Near-duplicates are judged across every combination, not just the shift sequence
+    const byRatio = [...gearRatios].sort((a, b) => rawRatio(a) - rawRatio(b));
+    const duplicates: GearOverlap[] = [];
+    for (let i = 1; i < byRatio.length; i++) {
+      const differencePercent = stepPercent(byRatio[i - 1], byRatio[i]);
+      if (differencePercent < duplicateThreshold) {
+        duplicates.push({ lower: byRatio[i - 1], higher: byRatio[i], differencePercent });
+      }
+    }
+    const uniqueGears = byRatio.length - duplicates.length;
+
+    const inBand = (step: ShiftStep) => !speedBand ||
+      (speedMph(step.to) >= speedBand.min && speedMph(step.from) <= speedBand.max);
+    const bandSteps = steps.filter(inBand);
+    const average = (list: ShiftStep[]) => list.length > 0
+      ? Math.round((list.reduce((total, step) => total + step.stepPercent, 0) / list.length) * 10) / 10
+      : 0;
+    const max = (list: ShiftStep[]) => list.length > 0 ? Math.max(...list.map(step => step.stepPercent)) : 0;
+
+    return {
+      sequence,
+      steps,
+      averageStep: average(steps),
+      maxStep: max(steps),
+      bandAverageStep: average(bandSteps),
+      bandMaxStep: max(bandSteps),
+      duplicates,
+      gaps: steps.filter(step => step.stepPercent > gapThreshold),
+      uniqueGears
+    };
+  }
+
+  // Angle between the chain and the bike's centreline, from the lateral offset over the chainstay
+  static calculateChainDeflection(frontPosition: number, rearPosition: number, chainstayLength: number): number {
+    if (!chainstayLength) return 0;
+    const angle = Math.atan(Math.abs(frontPosition - rearPosition) / chainstayLength) * (180 / Math.PI);
+    return Math.round(angle * 100) / 100;
+  }
+
+  /**
+   * Scores every gear by chain deflection angle. Ring positions spread around the front
+   * chainline, cog positions around the rear chainline with the smallest cog outboard.
+   */
+  static analyzeCrossChaining(setup: BikeSetup, chainstayLength: number): { issues: CrossChainingIssue[]; optimalGears: number[]; efficiencyLoss: number } {
+    const chainrings = this.getChainrings(setup);
+    const cogs = setup.cassette?.cassette?.cogs;
+    // Internal gear hubs and gearboxes run a straight chainline in every gear
+    if (setup.internalGear || !cogs || chainrings.length === 0) return { issues: [], optimalGears: [], efficiencyLoss: 0 };
+
+    const pitch = this.COG_PITCH[setup.cassette?.cassette?.speeds || cogs.length] || this.COG_PITCH[12];
+    const frontChainline = this.getFrontChainline(setup);
+    const rearChainline = this.getRearChainline(setup);
+    const gears = this.generateGearRatios(setup.cassette, chainrings).map(gear => {
+      const frontPosition = this.getChainringPosition(frontChainline, gear.chainringIndex, chainrings.length);
+      const rearPosition = this.getCogPosition(rearChainline, gear.cogIndex, cogs.length, pitch);
+      const angle = this.calculateChainDeflection(frontPosition, rearPosition, chainstayLength);
+      const loss = Math.round(Math.max(0, angle - this.OPTIMAL_DEFLECTION) * this.LOSS_PER_DEGREE * 100) / 100;
+      return { gear, angle, loss };
+    });
+
+    const issues: CrossChainingIssue[] = [];
+    gears.forEach(({ gear, angle, loss }) => {
+      if (angle < this.CROSS_CHAIN_THRESHOLDS.low) return;
+      const severity = angle >= this.CROSS_CHAIN_THRESHOLDS.high ? 'high' : angle >= this.CROSS_CHAIN_THRESHOLDS.medium ? 'medium' : 'low';
+      // On 2x/3x look for a similar ratio (within 5%) on another ring with a straighter chain
+      const alternative = gears
+        .filter(g => g.gear.chainringIndex !== gear.chainringIndex && g.angle < this.CROSS_CHAIN_THRESHOLDS.low && Math.abs(g.gear.ratio - gear.ratio) / gear.ratio <= 0.05)
+        .sort((a, b) => a.angle - b.angle)[0];
+      let recommendation: string;
+      if (alternative) {
+        recommendation = `Use ${alternative.gear.chainring}T x ${alternative.gear.cog}T instead: similar ratio with a ${alternative.angle.toFixed(1)}° chain angle.`;
+      } else if (severity === 'low') {
+        recommendation = 'Usable, but expect slightly more noise and wear if ridden here for long periods.';
+      } else {
+        recommendation = 'Avoid sustained riding in this gear. Expect noise, faster chain and cog wear, and possible chain drop.';
+      }
+      issues.push({
+        gear: `${gear.chainring}T x ${gear.cog}T`,
+        severity,
+        deflectionAngle: angle,
+        efficiencyLoss: loss,
+        recommendation
+      });
+    });
+
+    const averageLoss = gears.reduce((total, g) => total + g.loss, 0) / gears.length;
+    return {
+      issues,
+      optimalGears: gears.filter(g => g.angle <= this.OPTIMAL_DEFLECTION).map(g => g.gear.ratio),
+      efficiencyLoss: Math.round(averageLoss * 100) / 100
+    };
+  }
+
   static calculateTotalWeight(setup: BikeSetup): number {
-    const components = [setup.cassette, setup.chainring, setup.crankset, setup.chain, setup.wheel, setup.tire, setup.derailleur, setup.hub];
+    const components = [setup.cassette, setup.chainring, setup.crankset, setup.chain, setup.wheel, setup.tire, setup.derailleur, setup.hub, setup.internalGear, setup.sprocket];
     return components.reduce((total, component) => total + (component?.weightGrams || 0), 0);
   }
   
@@ -166,7 +581,7 @@ export class GearCalculator {
   }
 
   static calculateTotalCost(setup: BikeSetup): number {
-    const components = [setup.cassette, setup.chainring, setup.crankset, setup.chain, setup.wheel, setup.tire, setup.derailleur, setup.hub];
+    const components = [setup.cassette, setup.chainring, setup.crankset, setup.chain, setup.wheel, setup.tire, setup.derailleur, setup.hub, setup.internalGear, setup.sprocket];
     return components.reduce((total, component) => total + (component?.msrp || 0), 0);
   }
 
@@ -188,85 +603,327 @@ export class GearCalculator {
     };
   }
 
-  static checkCompatibility(current: BikeSetup, proposed: BikeSetup, chainline: ChainlineResult): CompatibilityStatus {
-    const issues: CompatibilityIssue[] = [];
-    
-    // Check BCD compatibility if both chainring and crankset are selected
-    if (proposed.chainring && proposed.crankset) {
-      const ringBcd = proposed.chainring.chainring?.bcd;
-      const crankBcd = proposed.crankset.crankset?.bcd;
-      if (ringBcd && crankBcd && ringBcd !== crankBcd) {
-        issues.push({
-          type: 'bcd',
-          severity: 'critical',
-          message: `Chainring BCD (${ringBcd}mm) does not match crankset BCD (${crankBcd}mm).`,
-          components: [`${proposed.chainring.manufacturer} ${proposed.chainring.model}`, `${proposed.crankset.manufacturer} ${proposed.crankset.model}`],
-          estimatedCost: proposed.chainring.msrp || 50,
-        });
+  /**
+   * How the proposed crank goes into the frame's shell (or the fitted BB's), with the Q-factor and
+   * front chainline it ends up on compared with the current setup.
+   */
+  static analyzeBottomBracket(current: BikeSetup, proposed: BikeSetup): BottomBracketResult | undefined {
+    const crank = proposed.crankset?.crankset;
+    const shell = proposed.frame?.frame?.bbShell || proposed.bottomBracket?.bottomBracket?.shell;
+    if (!crank?.spindleType || !shell) return undefined;
+
+    const fit = Standards.getBottomBracketFit(shell, crank.spindleType, crank.spindleLength);
+    const chainline = this.getFrontChainline(proposed);
+    const currentQFactor = current.crankset?.crankset?.qFactor;
+    const hasCurrentFront = !!(current.crankset || current.chainring);
+    return {
+      ...fit,
+      qFactor: crank.qFactor,
+      qFactorChange: crank.qFactor !== undefined && currentQFactor !== undefined ? crank.qFactor - currentQFactor : undefined,
+      chainline,
+      chainlineChange: hasCurrentFront ? Math.round((chainline - this.getFrontChainline(current)) * 10) / 10 : undefined
+    };
+  }
+
+  // Rules live in lib/compatibility; the chainline feeds the chainline rule
+  static checkCompatibility(current: BikeSetup, proposed: BikeSetup, chainline: ChainlineResult, catalog?: Component[]): CompatibilityStatus {
+    return CompatibilityEngine.check(proposed, { current, chainline, catalog });
+  }
+
+  // Pick the chain length method the drivetrain's manufacturer documents
+  private static getChainLengthMethod(setup: BikeSetup): ChainLengthMethod {
+    if (setup.internalGear) return 'geometric';
+    const parts = [setup.derailleur, setup.cassette];
+    const isSram = parts.some(c => c?.manufacturer === 'SRAM');
+    if (isSram && parts.some(c => /transmission|t-type/i.test(c?.model || ''))) return 'sram_transmission';
+    if (isSram && parts.some(c => (c?.cassette?.speeds || c?.derailleur?.speeds) === 12)) return 'sram_eagle';
+    return 'shimano';
+  }
+
+  /**
+   * Recommended chain length in links (12.7mm pitches). Derailleur drivetrains default to Shimano's
+   * big-big + 2 links; 'geometric' returns the exact wrap for singlespeeds and internal gear hubs.
+   */
+  static calculateChainLength(largestChainring: number, largestCog: number, chainstayLength: number, options: ChainLengthOptions = {}): ChainLengthResult {
+    const method = options.method || 'shimano';
+    if (!largestChainring || !largestCog || !chainstayLength) {
+        return { links: 0, length: 0, tolerance: {min: 0, max: 0}, method, notes: ['Missing inputs for calculation.'] };
+    }
+
+    const exactWrap = this.calculateWrapLength(largestChainring, largestCog, chainstayLength);
+    const wrapLinks = this.roundUpToEvenLinks(exactWrap);
+    const notes: string[] = [];
+    let links: number;
+    let tolerance: { min: number; max: number };
+
+    switch (method) {
+      case 'geometric':
+        links = wrapLinks;
+        tolerance = { min: wrapLinks, max: wrapLinks + 2 };
+        notes.push(`Exact wrap around ${largestChainring}T and ${largestCog}T at ${chainstayLength}mm centres is ${exactWrap.toFixed(1)} links.`);
+        notes.push('Set chain tension with the dropouts, eccentric BB or a tensioner.');
+        break;
+      case 'sram_eagle':
+      case 'sram_transmission': {
+        const chainstay = options.sagChainstayLength || chainstayLength;
+        links = this.lookupSramChainLength(method, largestChainring, chainstay);
+        tolerance = { min: links, max: links };
+        notes.push(`SRAM ${method === 'sram_eagle' ? 'Eagle' : 'Transmission'} chart: ${largestChainring}T chainring, ${chainstay}mm chainstay${options.sagChainstayLength ? ' measured at sag' : ''}.`);
+        if (!options.sagChainstayLength) notes.push('On full-suspension bikes, measure the chainstay with the shock set to sag.');
+        break;
+      }
+      case 'approximation': {
+        const baseLength = (2 * (chainstayLength / 25.4)) + (largestChainring / 4) + (largestCog / 4);
+        links = Math.ceil(baseLength + 1) * 2; // +1 inch, then round to nearest full link (2 links)
+        tolerance = { min: links - 2, max: links + 2 };
+        notes.push('Formula: ((2 x Chainstay) + (Chainring/4) + (Cog/4)) + 1 inch.');
+        break;
       }
+      default:
+        links = wrapLinks + 2;
+        tolerance = { min: wrapLinks, max: links + 2 };
+        notes.push(`Shimano method: big-big wrap of ${exactWrap.toFixed(1)} links, bypassing the derailleur, plus 2 links.`);
+        break;
     }
 
-    // Check chainline deviation
-    if (Math.abs(chainline.deviation) > 3) {
-      issues.push({
-        type: 'chainline',
-        severity: 'medium',
-        message: `Chainline deviation is ${chainline.deviation.toFixed(1)}mm, which may cause noise and premature wear.`,
-        components: ['Drivetrain'],
-        estimatedCost: 20 // Cost for spacers or adjustment
-      });
+    if (method !== 'geometric') {
+      notes.push(...this.checkChainLengthCapacity(largestChainring, largestCog, options));
+      notes.push('Always test chain in largest cog and largest chainring before cutting.');
     }
 
-    // Existing checks (cassette, derailleur, etc.) would go here
-    
-    return {
-      isCompatible: issues.length === 0,
-      status: issues.length > 0 ? (issues.some(i => i.severity === 'critical') ? 'incompatible' : 'warning') : 'compatible',
-      overallStatus: issues.length > 0 ? (issues.some(i => i.severity === 'critical') ? 'incompatible' : 'warning') : 'compatible',
-      issues,
-      solutions: [],
-      confidence: 100 - (issues.length * 20)
-    };
+    return { links, length: Math.round(links * 12.7), tolerance, method, notes };
   }
 
-  static calculateChainLength(largestChainring: number, largestCog: number, chainstayLength: number): ChainLengthResult {
-    if (!largestChainring || !largestCog || !chainstayLength) {
-        return { links: 0, length: 0, tolerance: {min: 0, max: 0}, notes: ['Missing inputs for calculation.'] };
+  /**
+   * Suspension-aware chain length: follows the axle through the travel (about the pivot, or along a
+   * measured chainstay curve), sizes the chain for the longest chainstay and reports pedal kickback
+   * in the biggest gear. chainstayLength is the effective chainstay at top-out.
+   */
+  static analyzeSuspensionChain(largestChainring: number, largestCog: number, chainstayLength: number, suspension: SuspensionParams, options: ChainLengthOptions = {}): SuspensionChainResult {
+    const curve = this.calculateChainGrowthCurve(largestChainring, largestCog, chainstayLength, suspension);
+    const notes: string[] = [];
+    const sagTravel = suspension.travel * (suspension.sag ?? this.DEFAULT_SAG) / 100;
+    const sagChainstayLength = this.interpolateChainstay(curve, sagTravel);
+    const maxChainstayLength = Math.max(...curve.map(p => p.chainstayLength));
+    const bottomOut = curve[curve.length - 1];
+
+    // The chain must wrap big-big at the longest chainstay and leave the derailleur a link of slack each side
+    const minSafeLinks = this.roundUpToEvenLinks(this.calculateWrapLength(largestChainring, largestCog, maxChainstayLength)) + 2;
+
+    // Shimano sizes at the longest chainstay; SRAM charts are read at sag
+    const method = options.method || 'shimano';
+    const usesSag = method === 'sram_eagle' || method === 'sram_transmission';
+    const chainLength = this.calculateChainLength(largestChainring, largestCog, usesSag ? chainstayLength : Math.round(maxChainstayLength),
+      { ...options, sagChainstayLength: usesSag ? Math.round(sagChainstayLength) : options.sagChainstayLength });
+
+    if (chainLength.links < minSafeLinks) {
+      chainLength.notes.unshift(`Lengthened from ${chainLength.links} to ${minSafeLinks} links so the derailleur keeps slack at bottom-out.`);
+      chainLength.links = minSafeLinks;
+      chainLength.length = Math.round(minSafeLinks * this.CHAIN_PITCH);
+      chainLength.tolerance = { min: minSafeLinks, max: Math.max(chainLength.tolerance.max, minSafeLinks) };
+    } else if (chainLength.tolerance.min < minSafeLinks) {
+      chainLength.tolerance.min = minSafeLinks;
     }
-    const baseLength = (2 * (chainstayLength / 25.4)) + (largestChainring / 4) + (largestCog / 4);
-    const links = Math.ceil(baseLength + 1) * 2; // +1 inch, then round to nearest full link (2 links)
-    const finalLinks = links % 2 === 0 ? links : links + 1;
-    
+
+    notes.push(`Chainstay grows from ${chainstayLength}mm to ${maxChainstayLength.toFixed(1)}mm through ${bottomOut.travel.toFixed(0)}mm of travel.`);
+    notes.push(`Never run fewer than ${minSafeLinks} links: a shorter chain can pull the derailleur straight in ${largestChainring}T x ${largestCog}T at bottom-out.`);
+    if (bottomOut.kickback > 15) {
+      notes.push(`${bottomOut.kickback.toFixed(1)}° of pedal kickback at bottom-out in the biggest gear; expect feedback through the pedals on big hits.`);
+    }
+    if (!suspension.axlePath && !suspension.pivot) {
+      notes.push('No pivot or axle path given; assuming the axle swings about the bottom bracket.');
+    }
+    if (bottomOut.travel < suspension.travel) {
+      notes.unshift(`The axle can only rise ${bottomOut.travel.toFixed(0)}mm about this pivot, not the ${suspension.travel}mm given; growth and kickback stop there. Check the pivot position and travel.`);
+    }
+
     return {
-      links: finalLinks,
-      length: Math.round(finalLinks * 12.7),
-      tolerance: { min: finalLinks - 2, max: finalLinks + 2 },
-      notes: [
-        'Formula: ((2 x Chainstay) + (Chainring/4) + (Cog/4)) + 1 inch.',
-        'Always test chain in largest cog and largest chainring before cutting.'
-      ]
+      curve,
+      growth: bottomOut.growth,
+      kickback: bottomOut.kickback,
+      sagChainstayLength,
+      maxChainstayLength,
+      minSafeLinks,
+      chainLength,
+      notes
     };
   }
-  
-  static analyzeChainline(chainringOffset: number, cassetteCenter: number, chainstayLength: number): ChainlineResult {
-    const currentChainline = Math.abs(chainringOffset - cassetteCenter);
-    const optimalChainline = 0; // Ideal is perfect alignment
-    const deviation = currentChainline - optimalChainline;
-    const efficiency = Math.max(90, 100 - (Math.abs(deviation) * 2)); // 2% loss per mm deviation, capped at 90%
+
+  // Axle positions through the travel, with tension-run chain growth and kickback at each step
+  private static calculateChainGrowthCurve(chainring: number, cog: number, chainstayLength: number, suspension: SuspensionParams): ChainGrowthPoint[] {
+    const bbDrop = suspension.bbDrop ?? this.DEFAULT_BB_DROP;
+    const axle0 = { x: Math.sqrt(chainstayLength * chainstayLength - bbDrop * bbDrop), y: bbDrop };
+    const pivot = suspension.pivot || { x: 0, y: 0 };
+    const swingRadius = Math.hypot(axle0.x - pivot.x, axle0.y - pivot.y);
+
+    const frontRadius = this.getPitchRadius(chainring);
+    const rearRadius = this.getPitchRadius(cog);
+
+    // About a pivot the axle rises at most to level with it; the curve ends there rather than holding the axle still
+    const measured = !!suspension.axlePath && suspension.axlePath.length > 1;
+    const maxTravel = measured ? suspension.travel : Math.max(0, Math.min(suspension.travel, pivot.y + swingRadius - axle0.y));
+
+    // Upper run from the top of the ring to the top of the cog: the tangent span plus both wrap arcs.
+    // Arcs are measured from the chain line (BB to axle), so a chain line that only rotates relative
+    // to the frame, as about a pivot concentric with the BB, adds no length.
+    const tensionRun = (axle: { x: number; y: number }) => {
+      const distance = Math.hypot(axle.x, axle.y);
+      const chainLineAngle = Math.atan2(axle.y, axle.x);
+      const normal = chainLineAngle + Math.acos((frontRadius - rearRadius) / distance);
+      const span = Math.sqrt(distance * distance - Math.pow(frontRadius - rearRadius, 2));
+      return frontRadius * (Math.PI - (normal - chainLineAngle)) + span + rearRadius * (normal - chainLineAngle);
+    };
+
+    const points: ChainGrowthPoint[] = [];
+    let baseRun = 0;
+    for (let i = 0; i <= this.SUSPENSION_STEPS; i++) {
+      const travel = Math.min(suspension.travel * i / this.SUSPENSION_STEPS, maxTravel);
+      let axle: { x: number; y: number };
+      if (measured && suspension.axlePath) {
+        // Measured curve: place the axle at the given chainstay length and vertical travel
+        const length = this.interpolateChainstay(suspension.axlePath, travel);
+        const y = bbDrop + travel;
+        axle = { x: Math.sqrt(Math.max(length * length - y * y, 0)), y };
+      } else {
+        // Only guards rounding at the top of the arc; maxTravel already keeps this within reach
+        const sinAngle = Math.min(1, (axle0.y + travel - pivot.y) / swingRadius);
+        const swingAngle = Math.asin(sinAngle);
+        axle = { x: pivot.x + swingRadius * Math.cos(swingAngle), y: pivot.y + swingRadius * Math.sin(swingAngle) };
+      }
+
+      // Both modes reduce to the axle position, so the same wheel path gives the same growth
+      const run = tensionRun(axle);
+      if (i === 0) baseRun = run;
+      const growth = run - baseRun;
+      points.push({
+        travel,
+        chainstayLength: Math.hypot(axle.x, axle.y),
+        growth,
+        kickback: (growth / frontRadius) * 180 / Math.PI
+      });
+      if (travel >= maxTravel) break;
+    }
+    return points;
+  }
+
+  private static interpolateChainstay(curve: Array<{ travel: number; chainstayLength: number }>, travel: number): number {
+    const sorted = curve.slice().sort((a, b) => a.travel - b.travel);
+    if (travel <= sorted[0].travel) return sorted[0].chainstayLength;
+    for (let i = 1; i < sorted.length; i++) {
+      if (travel <= sorted[i].travel) {
+        const t = (travel - sorted[i - 1].travel) / (sorted[i].travel - sorted[i - 1].travel);
+        return sorted[i - 1].chainstayLength + t * (sorted[i].chainstayLength - sorted[i - 1].chainstayLength);
+      }
+    }
+    return sorted[sorted.length - 1].chainstayLength;
+  }
+
+  // Pitch radius of a sprocket: the chain rollers sit on a polygon with 12.7mm sides
+  private static getPitchRadius(teeth: number): number {
+    return this.CHAIN_PITCH / (2 * Math.sin(Math.PI / teeth));
+  }
+
+  /**
+   * Exact chain path (in links) around two sprockets: the two tangent spans plus the wrapped arcs.
+   */
+  static calculateWrapLength(chainring: number, cog: number, centreDistance: number): number {
+    const frontRadius = this.getPitchRadius(chainring);
+    const rearRadius = this.getPitchRadius(cog);
+    const phi = Math.asin((frontRadius - rearRadius) / centreDistance);
+    const spans = (2 * centreDistance * Math.cos(phi)) / this.CHAIN_PITCH;
+    const frontWrap = chainring * (Math.PI + 2 * phi) / (2 * Math.PI);
+    const rearWrap = cog * (Math.PI - 2 * phi) / (2 * Math.PI);
+    return spans + frontWrap + rearWrap;
+  }
+
+  // Chains are joined inner-to-outer, so lengths come in whole pairs
+  private static roundUpToEvenLinks(links: number): number {
+    const rounded = Math.ceil(links - 0.05); // allow for rounding noise on an exact fit
+    return rounded % 2 === 0 ? rounded : rounded + 1;
+  }
+
+  private static lookupSramChainLength(method: 'sram_eagle' | 'sram_transmission', chainring: number, chainstay: number): number {
+    const table = method === 'sram_eagle' ? this.SRAM_EAGLE_CHAIN_LENGTHS : this.SRAM_TRANSMISSION_CHAIN_LENGTHS;
+    const row = table.find(r => chainstay <= r.maxChainstay) || table[table.length - 1];
+    let column = this.SRAM_CHART_CHAINRINGS.findIndex(teeth => chainring <= teeth);
+    if (column === -1) column = this.SRAM_CHART_CHAINRINGS.length - 1;
+    return row.links[column];
+  }
+
+  // Whether the rear derailleur can take up the slack between big-big and small-small
+  private static checkChainLengthCapacity(largestChainring: number, largestCog: number, options: ChainLengthOptions): string[] {
+    const notes: string[] = [];
+    const capacity = options.derailleurCapacity || (options.cageLength ? this.CAGE_CAPACITY[options.cageLength] : 0);
+    if (!capacity) return notes;
+
+    const frontRange = options.smallestChainring ? largestChainring - options.smallestChainring : 0;
+    const rearRange = options.smallestCog ? largestCog - options.smallestCog : 0;
+    const required = frontRange + rearRange;
+    if (required <= capacity) return notes;
+
+    if (frontRange > 0 && rearRange <= capacity) {
+      notes.push(`${options.cageLength === 'short' ? 'Short-cage derailleur' : 'Derailleur'} capacity is ${capacity}T but the drivetrain needs ${required}T: the chain will go slack in ${options.smallestChainring}T x ${options.smallestCog}T. Avoid the small-small gears or fit a longer cage.`);
+    } else {
+      notes.push(`Drivetrain needs ${required}T of capacity but the derailleur handles ${capacity}T; no chain length will work across every gear.`);
+    }
+    return notes;
+  }
+
+  static analyzeSetupChainline(setup: BikeSetup, chainstayLength: number): ChainlineResult {
+    const cogs = setup.internalGear
+      ? (setup.sprocket?.sprocket ? [setup.sprocket.sprocket.teeth] : [])
+      : setup.cassette?.cassette?.cogs || [];
+    return this.analyzeChainline(this.getFrontChainline(setup), this.getRearChainline(setup), chainstayLength, {
+      chainrings: this.getChainrings(setup),
+      cogs,
+      speeds: setup.cassette?.cassette?.speeds
+    });
+  }
+
+  /**
+   * Compares the front chainline (ring set centre) with the rear chainline (cassette centre) and
+   * works out the chain angle in every ring/cog combination.
+   */
+  static analyzeChainline(frontChainline: number, rearChainline: number, chainstayLength: number, options: ChainlineOptions = {}): ChainlineResult {
+    // Positions are by index: smallest ring inboard, smallest cog outboard
+    const chainrings = options.chainrings && options.chainrings.length > 0 ? options.chainrings.slice().sort((a, b) => a - b) : [0];
+    const cogs = options.cogs && options.cogs.length > 0 ? options.cogs.slice().sort((a, b) => a - b) : [0];
+    const pitch = this.COG_PITCH[options.speeds || cogs.length] || this.COG_PITCH[12];
+    const deviation = frontChainline - rearChainline;
+
+    const chainAngles: ChainAngle[] = [];
+    chainrings.forEach((chainring, chainringIndex) => {
+      cogs.forEach((cog, cogIndex) => {
+        const frontPosition = this.getChainringPosition(frontChainline, chainringIndex, chainrings.length);
+        const rearPosition = this.getCogPosition(rearChainline, cogIndex, cogs.length, pitch);
+        const angle = this.calculateChainDeflection(frontPosition, rearPosition, chainstayLength);
+        chainAngles.push({ chainring, cog, frontPosition, rearPosition, angle: rearPosition >= frontPosition ? angle : -angle });
+      });
+    });
+
+    const averageLoss = chainAngles.reduce((total, a) => total + Math.max(0, Math.abs(a.angle) - this.OPTIMAL_DEFLECTION) * this.LOSS_PER_DEGREE, 0) / chainAngles.length;
+    const efficiency = Math.round((100 - averageLoss) * 10) / 10;
+
     const recommendations: string[] = [];
     if (Math.abs(deviation) > 5) {
-      recommendations.push('Significant deviation detected. Consider chainring spacers or a different crankset.');
+      recommendations.push(`Rings sit ${Math.abs(deviation).toFixed(1)}mm ${deviation > 0 ? 'outboard' : 'inboard'} of the cassette centre. Consider a ring with ${deviation > 0 ? 'more' : 'less'} offset or a crankset matched to the hub spacing.`);
     } else if (Math.abs(deviation) > 2) {
       recommendations.push('Minor deviation. Performance is likely acceptable, but could be optimized.');
     } else {
       recommendations.push('Excellent chainline alignment.');
     }
+    const worst = chainAngles.slice().sort((a, b) => Math.abs(b.angle) - Math.abs(a.angle))[0];
+    if (worst && worst.cog && Math.abs(worst.angle) >= this.CROSS_CHAIN_THRESHOLDS.medium) {
+      recommendations.push(`Steepest gear is ${worst.chainring ? `${worst.chainring}T x ` : ''}${worst.cog}T at ${Math.abs(worst.angle).toFixed(1)}°; avoid sustained riding there.`);
+    }
+
     return {
-      optimalChainline,
-      currentChainline,
+      optimalChainline: rearChainline,
+      currentChainline: frontChainline,
       deviation,
       efficiency,
+      chainAngles,
       recommendations
     };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+// lib/gearing-recommender.ts
+// Searches the component catalog for cassette + chainring/crankset combinations that hit gearing targets.
+
+import { GearCalculator } from '@/lib/gear-calculator'
+import { Standards } from '@/lib/standards'
+import { BikeSetup, CalculatorParams, Component, GearingCandidate, GearingTargets } from '@/types/gear-calculator'
+
+export class GearingRecommender {
+
+  static DEFAULT_MAX_RESULTS = 10;
+
+  // Relative importance of each ranking criterion; lower weight, cost and step size all score better
+  static DEFAULT_RANKING = { weight: 1, cost: 1, smoothness: 1 };
+
+  /**
+   * Returns candidate setups, best first. baseSetup carries the parts that stay on the bike
+   * (wheel, tire, chain...) so every candidate can be loaded straight into the gear comparison.
+   */
+  static recommend(catalog: Component[], targets: GearingTargets, params: CalculatorParams = {}, baseSetup: BikeSetup = {}): GearingCandidate[] {
+    const cadence = targets.cadence || params.cadence || 90;
+    const derailleur = targets.derailleur?.derailleur;
+
+    const cassettes = catalog.filter(c => c.category === 'CASSETTE' && c.cassette).filter(c => {
+      const cassette = c.cassette!;
+      if (targets.freehubType && !Standards.getFreehubFit(cassette.freehubType, targets.freehubType)) return false;
+      if (derailleur) {
+        if (derailleur.speeds && cassette.speeds !== derailleur.speeds) return false;
+        if (derailleur.maxCog && Math.max(...cassette.cogs) > derailleur.maxCog) return false;
+      }
+      return true;
+    });
+    const fronts = catalog.filter(c => (c.category === 'CHAINRING' && c.chainring) || (c.category === 'CRANKSET' && c.crankset));
+
+    const candidates: GearingCandidate[] = [];
+    cassettes.forEach(cassette => {
+      fronts.forEach(front => {
+        const setup: BikeSetup = {
+          ...baseSetup,
+          cassette,
+          chainring: front.category === 'CHAINRING' ? front : undefined,
+          crankset: front.category === 'CRANKSET' ? front : undefined,
+          derailleur: targets.derailleur || baseSetup.derailleur,
+          internalGear: undefined,
+          sprocket: undefined
+        };
+
+        const rings = front.chainring ? [front.chainring.teeth] : front.crankset!.chainrings;
+        const cogs = cassette.cassette!.cogs;
+        if (derailleur?.capacity) {
+          const capacityNeeded = (Math.max(...rings) - Math.min(...rings)) + (Math.max(...cogs) - Math.min(...cogs));
+          if (capacityNeeded > derailleur.capacity) return;
+        }
+
+        const circumference = GearCalculator.calculateWheelCircumference(setup, params);
+        const gearRatios = GearCalculator.generateSetupGearRatios(setup, circumference);
+        const lowestRatio = GearCalculator.calculateClimbingGear(gearRatios);
+        const topSpeed = GearCalculator.calculateTopSpeed(gearRatios, circumference, cadence);
+        if (targets.lowestRatio && lowestRatio > targets.lowestRatio) return;
+        if (targets.topSpeed && topSpeed < targets.topSpeed) return;
+
+        candidates.push({
+          setup,
+          lowestRatio,
+          topSpeed,
+          weight: (cassette.weightGrams || 0) + (front.weightGrams || 0),
+          cost: (cassette.msrp || 0) + (front.msrp || 0),
+          averageStep: GearCalculator.analyzeShiftSteps(gearRatios, { cadence }).averageStep,
+          score: 0
+        });
+      });
+    });
+
+    return this.rank(candidates, targets.ranking).slice(0, targets.maxResults || this.DEFAULT_MAX_RESULTS);
+  }
+
+  // Min-max normalise each criterion across the candidates, then combine with the ranking weights (0-100)
+  private static rank(candidates: GearingCandidate[], ranking: GearingTargets['ranking'] = this.DEFAULT_RANKING): GearingCandidate[] {
+    if (candidates.length === 0) return candidates;
+    const normalise = (values: number[]) => {
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      return values.map(v => (max === min ? 1 : (max - v) / (max - min)));
+    };
+    const weights = normalise(candidates.map(c => c.weight));
+    const costs = normalise(candidates.map(c => c.cost));
+    const steps = normalise(candidates.map(c => c.averageStep));
+    const { weight = 1, cost = 1, smoothness = 1 } = ranking;
+    const total = weight + cost + smoothness || 1;
+
+    return candidates
+      .map((candidate, i) => ({
+        ...candidate,
+        score: Math.round(((weights[i] * weight + costs[i] * cost + steps[i] * smoothness) / total) * 100)
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
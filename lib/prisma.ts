@@ -0,0 +1,10 @@
+// lib/prisma.ts
+// One PrismaClient per server process; dev hot reloads would otherwise open a new pool each time.
+
+import { PrismaClient } from '@prisma/client'
+
+const globalForPrisma = globalThis as unknown as { prisma?: PrismaClient };
+
+export const prisma = globalForPrisma.prisma || new PrismaClient();
+
+if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma;
@@ -0,0 +1,129 @@
+// lib/speed-model.ts
+// Power/speed model: rider power against gravity, rolling resistance and aerodynamic drag.
+
+import { CalculatorParams, GearRatio, PhysicsResult } from '@/types/gear-calculator'
+
+export class SpeedModel {
+
+  static LBS_TO_KG = 0.453592;
+  static MS_TO_MPH = 2.23694;
+  static GRAVITY = 9.81;
+  static AIR_DENSITY = 1.225; // kg/m^3, sea level at 15°C
+
+  // Defaults for a typical rider when the parameters are left blank
+  static DEFAULTS = {
+    riderWeight: 165, // lbs
+    bikeWeight: 28, // lbs
+    riderPower: 200, // W
+    cda: 0.4, // m^2, riding on the hoods / upright MTB position
+    crr: 0.006,
+    drivetrainEfficiency: 97, // %
+    cadence: 90
+  };
+
+  static GRADIENT_STEPS = [0, 3, 6, 9, 12, 15, 20]; // % grades reported in the cadence table
+
+  private static resolve(params: CalculatorParams) {
+    const riderWeight = params.riderWeight || this.DEFAULTS.riderWeight;
+    const bikeWeight = params.bikeWeight || this.DEFAULTS.bikeWeight;
+    return {
+      massKg: (riderWeight + bikeWeight) * this.LBS_TO_KG,
+      power: params.riderPower || this.DEFAULTS.riderPower,
+      cda: params.cda || this.DEFAULTS.cda,
+      crr: params.crr || this.DEFAULTS.crr,
+      efficiency: (params.drivetrainEfficiency || this.DEFAULTS.drivetrainEfficiency) / 100,
+      cadence: params.cadence || this.DEFAULTS.cadence
+    };
+  }
+
+  // Resistive force in N at speed v (m/s) on a grade given in %
+  private static resistiveForce(speed: number, gradient: number, massKg: number, cda: number, crr: number): number {
+    const angle = Math.atan(gradient / 100);
+    const gravity = massKg * this.GRAVITY * Math.sin(angle);
+    const rolling = massKg * this.GRAVITY * crr * Math.cos(angle);
+    const aero = 0.5 * this.AIR_DENSITY * cda * speed * speed;
+    return gravity + rolling + aero;
+  }
+
+  /**
+   * Steady-state speed (mph) for a rider power on a grade. Power at the wheel is rider power
+   * times drivetrain efficiency; solved by bisection since required power rises monotonically with speed.
+   */
+  static calculateSpeedForPower(params: CalculatorParams, gradient: number = params.gradient || 0): number {
+    const { massKg, power, cda, crr, efficiency } = this.resolve(params);
+    const wheelPower = power * efficiency;
+    let low = 0;
+    let high = 40; // m/s
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (this.resistiveForce(mid, gradient, massKg, cda, crr) * mid > wheelPower) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    return Math.round(low * this.MS_TO_MPH * 10) / 10;
+  }
+
+  // Rider power (W) needed to hold a speed (mph) on a grade
+  static calculatePowerForSpeed(params: CalculatorParams, speedMph: number, gradient: number = params.gradient || 0): number {
+    const { massKg, cda, crr, efficiency } = this.resolve(params);
+    const speed = speedMph / this.MS_TO_MPH;
+    return Math.round((this.resistiveForce(speed, gradient, massKg, cda, crr) * speed) / efficiency);
+  }
+
+  /**
+   * Steepest grade (%) the rider can hold in a gear at the target cadence with their power.
+   * The gear fixes the road speed, so this solves the force balance for the slope.
+   */
+  static calculateMaxGradient(gear: GearRatio | undefined, params: CalculatorParams): number {
+    if (!gear) return 0;
+    const { massKg, power, cda, crr, efficiency, cadence } = this.resolve(params);
+    const speed = (gear.development * cadence) / 60;
+    if (speed <= 0) return 0;
+    const wheelPower = power * efficiency;
+    if (this.resistiveForce(speed, 0, massKg, cda, crr) * speed > wheelPower) return 0;
+    let low = 0;
+    let high = 100; // % grade (45°)
+    for (let i = 0; i < 60; i++) {
+      const mid = (low + high) / 2;
+      if (this.resistiveForce(speed, mid, massKg, cda, crr) * speed > wheelPower) {
+        high = mid;
+      } else {
+        low = mid;
+      }
+    }
+    return Math.round(low * 10) / 10;
+  }
+
+  // Cadence needed in a gear to ride at the speed the rider's power sustains on each grade
+  static calculateCadenceByGradient(gear: GearRatio | undefined, params: CalculatorParams): PhysicsResult['cadenceByGradient'] {
+    if (!gear || gear.development <= 0) return [];
+    return this.GRADIENT_STEPS.map(gradient => {
+      const speed = this.calculateSpeedForPower(params, gradient);
+      const cadence = ((speed / this.MS_TO_MPH) * 60) / gear.development;
+      return { gradient, speed, cadence: Math.round(cadence) };
+    });
+  }
+
+  /**
+   * Full physics summary for one setup. gearRatios must come from generateGearRatios
+   * (hardest gear first) so the last entry is the climbing gear.
+   */
+  static analyzeSetup(gearRatios: GearRatio[], params: CalculatorParams): PhysicsResult {
+    const lowestGear = gearRatios[gearRatios.length - 1];
+    const { cadence } = this.resolve(params);
+    const speedAtPower = this.calculateSpeedForPower(params);
+    const highestGear = gearRatios[0];
+    const topGearCadence = highestGear && highestGear.development > 0
+      ? Math.round(((speedAtPower / this.MS_TO_MPH) * 60) / highestGear.development)
+      : 0;
+    return {
+      speedAtPower,
+      topGearCadence,
+      maxGradient: this.calculateMaxGradient(lowestGear, params),
+      targetCadence: cadence,
+      cadenceByGradient: this.calculateCadenceByGradient(lowestGear, params)
+    };
+  }
+}
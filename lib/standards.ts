@@ -0,0 +1,266 @@
+// lib/standards.ts
+// Reference dimensions and fit tables for frame, hub, drivetrain and brake standards.
+
+import { ActuationAdapter, ActuationFamily, ActuationPairing, AxleSpec, AxleType, BBShellSpec, BBShellStandard, BottomBracketFit, BrakeAdapterData, BrakeMount, BrakeMountSpec, ClearancePoint, FreehubFit, FreehubType, RimType, SpindleStandard, TireClearance } from '@/types/gear-calculator'
+
+export class Standards {
+
+  // Shell width (mm) and the chainline a typical crankset runs on it. Threaded 68/73 cranks are spaced
+  // to the same chainline, so the shell sets the crank family rather than shifting the rings.
+  // Press-fit and internal-cup shells hide their extra width, so the span a spindle bridges is
+  // the road (68) or MTB (73) equivalent.
+  static BB_SHELLS: Record<BBShellStandard, BBShellSpec> = {
+    BSA_68: { width: 68, label: 'BSA 68mm (road)', chainline: { single: 45, double: 43.5 }, bore: 34.8, threaded: true, spindleSpan: 68 },
+    BSA_73: { width: 73, label: 'BSA 73mm (MTB)', chainline: { single: 49, double: 45 }, bore: 34.8, threaded: true, spindleSpan: 73 },
+    BSA_83: { width: 83, label: 'BSA 83mm (DH)', chainline: { single: 52, double: 50 }, bore: 34.8, threaded: true, spindleSpan: 83 },
+    ITALIAN_70: { width: 70, label: 'Italian 70mm (road)', chainline: { single: 45, double: 43.5 }, bore: 36, threaded: true, spindleSpan: 68 },
+    BB86: { width: 86.5, label: 'BB86 press-fit (road)', chainline: { single: 45, double: 43.5 }, bore: 41, threaded: false, spindleSpan: 68 },
+    BB92: { width: 92, label: 'BB92 press-fit (MTB)', chainline: { single: 49, double: 45 }, bore: 41, threaded: false, spindleSpan: 73 },
+    BB30_68: { width: 68, label: 'BB30 68mm (road)', chainline: { single: 45, double: 43.5 }, bore: 42, threaded: false, spindleSpan: 68 },
+    BB30_73: { width: 73, label: 'BB30 73mm (MTB)', chainline: { single: 49, double: 45 }, bore: 42, threaded: false, spindleSpan: 73 },
+    PF30_68: { width: 68, label: 'PF30 68mm (road)', chainline: { single: 45, double: 43.5 }, bore: 46, threaded: false, spindleSpan: 68 },
+    PF30_73: { width: 73, label: 'PF30 73mm (MTB)', chainline: { single: 49, double: 45 }, bore: 46, threaded: false, spindleSpan: 73 },
+    BB386EVO: { width: 86.5, label: 'BB386EVO press-fit (road)', chainline: { single: 45, double: 43.5 }, bore: 46, threaded: false, spindleSpan: 86.5, conversionSpan: 68 },
+    T47_68: { width: 68, label: 'T47 68mm (road)', chainline: { single: 45, double: 43.5 }, bore: 47, threaded: true, spindleSpan: 68 },
+    T47_86: { width: 85.5, label: 'T47 85.5mm (road/gravel)', chainline: { single: 45, double: 43.5 }, bore: 47, threaded: true, spindleSpan: 68 },
+  };
+
+  // Spindle diameter and the smallest press-fit bore its bearings fit; threaded shells take external cups
+  static SPINDLES: Record<SpindleStandard, { diameter: number; minBore: number; label: string }> = {
+    HOLLOWTECH_II: { diameter: 24, minBore: 37, label: 'Hollowtech II 24mm' },
+    GXP: { diameter: 24, minBore: 37, label: 'GXP 24/22mm' },
+    DUB: { diameter: 28.99, minBore: 41, label: 'DUB 28.99mm' },
+    SPINDLE_30: { diameter: 30, minBore: 42, label: '30mm' },
+  };
+
+  // Most spacer a spindle can take up and still preload the bearings (mm)
+  static MAX_BB_SPACERS = 5;
+
+  static getBottomBracketFit(bbShell: BBShellStandard, spindle: SpindleStandard, spindleLength?: number): BottomBracketFit {
+    const shell = this.BB_SHELLS[bbShell];
+    const spec = this.SPINDLES[spindle];
+    const conversion = !shell.threaded && shell.bore >= 46 && spec.diameter < 30;
+    const span = conversion && shell.conversionSpan ? shell.conversionSpan : shell.spindleSpan;
+    const bottomBracket = `${shell.label} BB for ${spec.label} spindles${conversion ? ' (conversion)' : ''}`;
+
+    if (!shell.threaded && shell.bore < spec.minBore) {
+      return { fits: false, bottomBracket, conversion, spacers: 0, reason: `${spec.label} bearings do not fit the ${shell.bore}mm ${shell.label} bore` };
+    }
+    if (spindleLength === undefined) return { fits: true, bottomBracket, conversion, spacers: 0 };
+    if (spindleLength < span) {
+      return { fits: false, bottomBracket, conversion, spacers: 0, reason: `a ${spindleLength}mm spindle is too short for the ${span}mm span of a ${shell.label} shell` };
+    }
+    const spacers = spindleLength - span;
+    if (spacers > this.MAX_BB_SPACERS) {
+      return { fits: false, bottomBracket, conversion, spacers, reason: `a ${spindleLength}mm spindle needs ${spacers}mm of spacers in a ${shell.label} shell` };
+    }
+    return { fits: true, bottomBracket, conversion, spacers };
+  }
+
+  // Centre of the cassette (mm from frame centre) by rear hub spacing
+  static REAR_HUB_CHAINLINES: Record<number, number> = { 130: 43.5, 135: 47.5, 142: 49, 148: 52, 157: 56.5 };
+
+  // Road disc hubs share 135/142 spacing but keep the cassette further inboard
+  static ROAD_REAR_HUB_CHAINLINES: Record<number, number> = { 130: 43.5, 135: 45, 142: 45 };
+
+  static getFrontChainline(bbShell: BBShellStandard, chainringCount: number): number {
+    const shell = this.BB_SHELLS[bbShell];
+    return chainringCount > 1 ? shell.chainline.double : shell.chainline.single;
+  }
+
+  // Nearest listed spacing wins, so 141/143mm measurements still resolve
+  static getRearChainline(rearSpacing: number, road = false): number {
+    const table = road ? this.ROAD_REAR_HUB_CHAINLINES : this.REAR_HUB_CHAINLINES;
+    const spacings = Object.keys(table).map(Number);
+    const nearest = spacings.reduce((best, spacing) => Math.abs(spacing - rearSpacing) < Math.abs(best - rearSpacing) ? spacing : best, spacings[0]);
+    return Math.abs(nearest - rearSpacing) <= 2 ? table[nearest] : this.REAR_HUB_CHAINLINES[148] - (148 - rearSpacing) / 2;
+  }
+
+  /**
+   * Which cassettes fit which freehub bodies. Same-type fits are implied; this lists the cross-fits.
+   * The DT Swiss and Rotor entries are HG-profile bodies under their own part names.
+   */
+  static FREEHUB_FITS: FreehubFit[] = [
+    { body: 'SHIMANO_HG_L', cassette: 'SHIMANO_HG', spacer: 1.85, note: 'HG-L is the 11-speed road length; shorter 8-10s and MTB cassettes need the 1.85mm spacer' },
+    { body: 'SHIMANO_HG_L', cassette: 'SHIMANO_HG_L2' },
+    { body: 'SHIMANO_HG_L2', cassette: 'SHIMANO_HG_L' },
+    { body: 'SHIMANO_HG_L2', cassette: 'SHIMANO_HG', spacer: 1.85 },
+    { body: 'SRAM_XDR', cassette: 'SRAM_XD', spacer: 1.85, note: 'XDR is 1.85mm longer than XD' },
+    { body: 'CAMPAGNOLO_N3W', cassette: 'N3W' },
+    { body: 'N3W', cassette: 'CAMPAGNOLO_N3W' },
+    { body: 'CAMPAGNOLO_N3W', cassette: 'CAMPAGNOLO', note: 'needs the N3W adapter lockring for 11/12s cassettes' },
+    { body: 'N3W', cassette: 'CAMPAGNOLO', note: 'needs the N3W adapter lockring for 11/12s cassettes' },
+    { body: 'DTSWISS_350', cassette: 'SHIMANO_HG' },
+    { body: 'DTSWISS_240', cassette: 'SHIMANO_HG' },
+    { body: 'ROTOR_HG', cassette: 'SHIMANO_HG' },
+  ];
+
+  // How a cassette fits a body, or null when it does not
+  static getFreehubFit(cassette: FreehubType, body: FreehubType): FreehubFit | null {
+    if (cassette === body) return { body, cassette };
+    return this.FREEHUB_FITS.find(fit => fit.body === body && fit.cassette === cassette) || null;
+  }
+
+  static WIRELESS_ACTUATION: ActuationFamily[] = ['SRAM_AXS', 'SHIMANO_DI2', 'CAMPAGNOLO_EPS'];
+
+  // Mixed-family pairs that index correctly without modification
+  static ACTUATION_PAIRINGS: ActuationPairing[] = [
+    { shifter: 'SHIMANO_ROAD_11', derailleur: 'SHIMANO_DYNASYS', speeds: 11, note: '11-speed road shifters pull the same cable as 11-speed MTB derailleurs' },
+    { shifter: 'SHIMANO_ROAD_11', derailleur: 'SHIMANO_DYNASYS', speeds: 10, note: 'Tiagra 4700 shifters index 10-speed Dyna-Sys derailleurs' },
+    { shifter: 'SHIMANO_DYNASYS', derailleur: 'SHIMANO_ROAD_11', speeds: 11, note: '11-speed MTB shifters index 11-speed road derailleurs' },
+  ];
+
+  // Cable pull converters that bridge two families
+  static ACTUATION_ADAPTERS: ActuationAdapter[] = [
+    { shifter: 'SHIMANO_ROAD', derailleur: 'SHIMANO_DYNASYS', name: 'Wolf Tooth Tanpan', cost: 40 },
+    { shifter: 'SHIMANO_ROAD', derailleur: 'SRAM_EXACT_ACTUATION', name: 'Jtek ShiftMate', cost: 35 },
+    { shifter: 'SRAM_ROAD', derailleur: 'SHIMANO_ROAD', name: 'Jtek ShiftMate', cost: 35 },
+  ];
+
+  // Same family, a known-good pairing, or null when the shifter cannot index the derailleur
+  static getActuationPairing(shifter: ActuationFamily, derailleur: ActuationFamily, speeds: number): ActuationPairing | null {
+    if (shifter === derailleur) return { shifter, derailleur, note: 'Same actuation family' };
+    return this.ACTUATION_PAIRINGS.find(p => p.shifter === shifter && p.derailleur === derailleur && (!p.speeds || p.speeds === speeds)) || null;
+  }
+
+  static getActuationAdapters(shifter: ActuationFamily, derailleur: ActuationFamily): ActuationAdapter[] {
+    // Electronic systems talk their own protocol; nothing converts them
+    if (this.WIRELESS_ACTUATION.includes(shifter) || this.WIRELESS_ACTUATION.includes(derailleur)) return [];
+    return this.ACTUATION_ADAPTERS.filter(a => a.shifter === shifter && a.derailleur === derailleur);
+  }
+
+  static BRAKE_ADAPTER_COST = 25;
+  static CENTER_LOCK_ADAPTER_COST = 20; // 6-bolt rotor on a Center Lock hub
+
+  // Mount pairs an adapter exists for; a post mount caliper cannot sit on flat mount tabs
+  static BRAKE_ADAPTER_MOUNTS: Array<[BrakeMount, BrakeMount]> = [
+    ['POST_MOUNT', 'POST_MOUNT'],
+    ['FLAT_MOUNT', 'FLAT_MOUNT'],
+    ['IS', 'POST_MOUNT'],
+    ['POST_MOUNT', 'FLAT_MOUNT'],
+  ];
+
+  // The adapter a caliper needs to run a rotor on the given tabs: null when it bolts straight on,
+  // undefined when no adapter can make it fit
+  static getRequiredBrakeAdapter(tabs: BrakeMountSpec, caliperMount: Exclude<BrakeMount, 'IS'>, rotor: number): BrakeAdapterData | null | undefined {
+    if (rotor < tabs.nativeRotor || rotor > tabs.maxRotor) return undefined;
+    if (tabs.type === caliperMount && rotor === tabs.nativeRotor) return null;
+    if (!this.BRAKE_ADAPTER_MOUNTS.some(([frame, caliper]) => frame === tabs.type && caliper === caliperMount)) return undefined;
+    return { frameMount: tabs.type, caliperMount, fromRotor: tabs.nativeRotor, toRotor: rotor };
+  }
+
+  static BRAKE_MOUNT_LABELS: Record<BrakeMount, string> = { FLAT_MOUNT: 'flat mount', POST_MOUNT: 'post mount', IS: 'IS' };
+
+  // e.g. "post mount adapter, 180 to 203mm rotor (+23)"
+  static describeBrakeAdapter(adapter: BrakeAdapterData): string {
+    const labels = this.BRAKE_MOUNT_LABELS;
+    const mounts = adapter.frameMount === adapter.caliperMount
+      ? labels[adapter.frameMount]
+      : `${labels[adapter.frameMount]} to ${labels[adapter.caliperMount]}`;
+    const increase = adapter.toRotor - adapter.fromRotor;
+    const rotors = increase > 0 ? `${adapter.fromRotor} to ${adapter.toRotor}mm rotor (+${increase})` : `${adapter.toRotor}mm rotor`;
+    return `${mounts} adapter, ${rotors}`;
+  }
+
+  static brakeAdapterMatches(fitted: BrakeAdapterData, required: BrakeAdapterData): boolean {
+    return fitted.frameMount === required.frameMount && fitted.caliperMount === required.caliperMount &&
+      fitted.fromRotor === required.fromRotor && fitted.toRotor === required.toRotor;
+  }
+
+  // Bead seat diameter (mm) by nominal wheel size
+  static BEAD_SEAT_DIAMETERS: Record<string, number> = { '29': 622, '28': 622, '700': 622, '27.5': 584, '650': 584, '26': 559, '24': 507, '20': 406 };
+
+  // Free space wanted each side of the tire (mm); mud packs into anything tighter
+  static TIRE_CLEARANCE_MARGINS = { dry: 4, mud: 6 };
+
+  static CLEARANCE_POINT_LABELS: Record<ClearancePoint, string> = {
+    CHAINSTAY: 'chainstays',
+    YOKE: 'chainstay yoke',
+    SEATSTAY: 'seatstays',
+    SEAT_TUBE: 'seat tube',
+    CROWN: 'fork crown',
+    ARCH: 'fork arch',
+  };
+
+  // Widths under 6 are inch-sized MTB tires
+  static getTireWidthMm(width: number): number {
+    return width < 6 ? width * 25.4 : width;
+  }
+
+  static getTireClearance(clearances: TireClearance[], wheelSize: number): TireClearance | undefined {
+    const bsd = this.BEAD_SEAT_DIAMETERS[String(wheelSize)];
+    return clearances.find(c => c.wheelSize === wheelSize || (!!bsd && this.BEAD_SEAT_DIAMETERS[String(c.wheelSize)] === bsd));
+  }
+
+  static AXLES: Record<AxleType, AxleSpec> = {
+    QR_100: { position: 'FRONT', spacing: 100, axle: 5, label: '100mm QR' },
+    TA_100x12: { position: 'FRONT', spacing: 100, axle: 12, label: '100x12mm' },
+    TA_100x15: { position: 'FRONT', spacing: 100, axle: 15, label: '100x15mm' },
+    TA_110x15_BOOST: { position: 'FRONT', spacing: 110, axle: 15, label: '110x15mm Boost' },
+    TA_110x20: { position: 'FRONT', spacing: 110, axle: 20, label: '110x20mm' },
+    QR_130: { position: 'REAR', spacing: 130, axle: 5, label: '130mm QR' },
+    QR_135: { position: 'REAR', spacing: 135, axle: 5, label: '135mm QR' },
+    TA_135x12: { position: 'REAR', spacing: 135, axle: 12, label: '135x12mm' },
+    TA_142x12: { position: 'REAR', spacing: 142, axle: 12, label: '142x12mm' },
+    TA_148x12_BOOST: { position: 'REAR', spacing: 148, axle: 12, label: '148x12mm Boost' },
+    TA_157x12_SUPERBOOST: { position: 'REAR', spacing: 157, axle: 12, label: '157x12mm SuperBoost' },
+  };
+
+  // Standards that share hub shell and flange spacing, so end caps alone convert between them.
+  // 142x12 is a 135mm hub with 3.5mm longer end caps; Boost moves the flanges and never converts.
+  static END_CAP_FAMILIES: AxleType[][] = [
+    ['QR_100', 'TA_100x12', 'TA_100x15'],
+    ['TA_110x15_BOOST', 'TA_110x20'],
+    ['QR_135', 'TA_135x12', 'TA_142x12'],
+  ];
+
+  static DEFAULT_END_CAP_COST = 40;
+
+  static sharesEndCapFamily(a: AxleType, b: AxleType): boolean {
+    return this.END_CAP_FAMILIES.some(family => family.includes(a) && family.includes(b));
+  }
+
+  // ISO 5775 caps tubeless tire pressure on hookless rims at 5 bar
+  static HOOKLESS_MAX_PSI = 72.5;
+
+  // ETRTO recommended tire widths (mm) by internal rim width; hookless rims need the tire to sit
+  // closer to the rim width, and narrow rims have no hookless rating at all
+  static RIM_TIRE_RANGES: Array<{ rim: number; hooked: [number, number]; hookless?: [number, number] }> = [
+    { rim: 13, hooked: [18, 28] },
+    { rim: 15, hooked: [23, 32] },
+    { rim: 17, hooked: [25, 37], hookless: [28, 37] },
+    { rim: 19, hooked: [28, 47], hookless: [28, 47] },
+    { rim: 21, hooked: [28, 50], hookless: [28, 50] },
+    { rim: 23, hooked: [30, 56], hookless: [30, 56] },
+    { rim: 25, hooked: [35, 62], hookless: [35, 62] },
+    { rim: 27, hooked: [40, 64], hookless: [40, 64] },
+    { rim: 30, hooked: [50, 71], hookless: [50, 71] },
+    { rim: 35, hooked: [58, 76], hookless: [58, 76] },
+  ];
+
+  // Tire width range for the nearest listed rim at or below the given width; null when the rim
+  // has no rating for that bead type
+  static getRimTireRange(rimWidth: number, rimType: RimType = 'HOOKED'): [number, number] | null {
+    const rows = this.RIM_TIRE_RANGES.filter(row => row.rim <= rimWidth);
+    const row = rows.length > 0 ? rows[rows.length - 1] : this.RIM_TIRE_RANGES[0];
+    return (rimType === 'HOOKLESS' ? row.hookless : row.hooked) || null;
+  }
+
+  // Bead seat diameter from an ETRTO size, tire ('40-622') or rim ('622x25')
+  static parseEtrtoBsd(etrto: string): number | undefined {
+    const match = etrto.match(/^(\d+)-(\d+)$/) || etrto.match(/^(\d+)x(\d+)/);
+    if (!match) return undefined;
+    return etrto.includes('-') ? parseInt(match[2]) : parseInt(match[1]);
+  }
+
+  // Shims that let a smaller bar or steerer sit in a larger stem clamp (mm)
+  static CLAMP_SHIMS: Array<{ clamp: number; fits: number; cost: number }> = [
+    { clamp: 31.8, fits: 25.4, cost: 10 },
+    { clamp: 35, fits: 31.8, cost: 15 },
+    { clamp: 31.8, fits: 28.6, cost: 12 }, // 1-1/4" stem on a 1-1/8" steerer
+  ];
+
+  static getClampShim(clamp: number, fits: number): { clamp: number; fits: number; cost: number } | undefined {
+    return this.CLAMP_SHIMS.find(shim => shim.clamp === clamp && shim.fits === fits);
+  }
+}
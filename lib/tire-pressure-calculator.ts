@@ -2,11 +2,16 @@
 // Final, complete, and untruncated version.
 // Contains the corrected TirePressureCalculator and the full SuspensionCalculator and RideFeedbackWizard classes.
 
+import { Standards } from '@/lib/standards'
+import { RimType } from '@/types/gear-calculator'
+
 export interface TirePressureInput {
     riderWeight: number // kg
     bikeWeight?: number // kg (optional, defaults by bike type)
     tireWidth: number // mm
     rimInternalWidth: number // mm
+    rimWidthEstimated?: boolean // rimInternalWidth came from the tire width, not the user
+    rimType?: RimType // only set when the rim type or width is known
     terrain: TerrainType
     ridingStyle: RidingStyle
     bikeType: BikeType
@@ -23,6 +28,11 @@ export interface TirePressureInput {
     tubeless: boolean
     conditions: 'dry' | 'wet' | 'mixed'
     priority: 'comfort' | 'balanced' | 'speed' | 'grip'
+    rimInternalWidth?: number // mm, estimated from the tire when not given
+    rimType?: RimType
+    rimMaxPressure?: number // psi
+    tireMaxPressure?: number // psi
+    tireHooklessApproved?: boolean // on the tire maker's hookless list; unset when unknown
   }
   
   export interface SuspensionInput {
@@ -192,15 +202,36 @@ export interface TirePressureInput {
       if (rearPSI < frontPSI) {
         rearPSI = frontPSI + 1;
       }
+
+      // Rim and tire ratings are hard limits, applied after the front/rear split
+      const ceiling = this.getPressureCeiling(params);
+      if (ceiling && frontPSI > ceiling.psi) {
+        warnings.push(`Front pressure has been capped at ${ceiling.psi} PSI, the ${ceiling.source} maximum.`);
+        frontPSI = ceiling.psi;
+      }
+      if (ceiling && rearPSI > ceiling.psi) {
+        warnings.push(`Rear pressure has been capped at ${ceiling.psi} PSI, the ${ceiling.source} maximum.`);
+        rearPSI = ceiling.psi;
+      }
       
-      const finalFrontPSI = Math.round(frontPSI);
-      const finalRearPSI = Math.round(rearPSI);
+      // Same rule as the tire-rim compatibility check: only listed tires go on hookless rims
+      if (params.rimType === 'HOOKLESS' && params.tireHooklessApproved === false) {
+        warnings.push('This tire is not approved for hookless rims. Do not mount it, whatever the pressure.');
+      } else if (params.rimType === 'HOOKLESS' && params.tireHooklessApproved === undefined) {
+        warnings.push("Check the tire maker's hookless list before mounting this tire on a hookless rim.");
+      }
+
+      // Round down against a ceiling so 72.5 never shows as 73
+      const finalFrontPSI = ceiling && frontPSI === ceiling.psi ? Math.floor(frontPSI) : Math.round(frontPSI);
+      const finalRearPSI = ceiling && rearPSI === ceiling.psi ? Math.floor(rearPSI) : Math.round(rearPSI);
       
       const input: TirePressureInput = {
         riderWeight: params.riderWeight * this.LBS_TO_KG,
         bikeWeight: params.bikeWeight * this.LBS_TO_KG,
         tireWidth: params.tireWidth,
-        rimInternalWidth: this.estimateRimWidth(params.tireWidth, bikeType),
+        rimInternalWidth: params.rimInternalWidth ?? this.estimateRimWidth(params.tireWidth, bikeType),
+        rimWidthEstimated: params.rimInternalWidth === undefined,
+        rimType: params.rimType || (params.rimInternalWidth ? 'HOOKED' : undefined),
         terrain: params.terrain,
         ridingStyle: params.priority,
         bikeType: bikeType,
@@ -216,7 +247,7 @@ export interface TirePressureInput {
         frontBAR: parseFloat((finalFrontPSI * this.PSI_TO_BAR).toFixed(2)),
         rearBAR: parseFloat((finalRearPSI * this.PSI_TO_BAR).toFixed(2)),
         confidence: this.calculateConfidence(input),
-        range: this.calculatePressureRanges(finalFrontPSI, finalRearPSI),
+        range: this.calculatePressureRanges(finalFrontPSI, finalRearPSI, ceiling?.psi),
         recommendations,
         warnings,
         terrainNotes: this.generateTerrainNotes(input),
@@ -331,18 +362,30 @@ export interface TirePressureInput {
       return maximums[bikeType] || 40;
     }
 
-    private static calculatePressureRanges(frontPSI: number, rearPSI: number): TirePressureResult['range'] {
+    private static calculatePressureRanges(frontPSI: number, rearPSI: number, ceiling = Infinity): TirePressureResult['range'] {
       const variation = 2;
       const frontMin = frontPSI - variation;
       const rearMin = rearPSI - variation;
+      const frontMax = Math.min(frontPSI + variation, Math.floor(ceiling));
+      const rearMax = Math.min(rearPSI + variation, Math.floor(ceiling));
       return {
-        front: { min: frontMin, max: frontPSI + variation },
-        rear: { min: rearMin, max: rearPSI + variation },
+        front: { min: frontMin, max: frontMax },
+        rear: { min: rearMin, max: rearMax },
         min: Math.min(frontMin, rearMin),
-        max: Math.max(frontPSI + variation, rearPSI + variation)
+        max: Math.max(frontMax, rearMax)
       };
     }
 
+    // Lowest of the rim rating, the tire rating and the hookless limit, with where it came from
+    private static getPressureCeiling(params: TirePressureParams): { psi: number; source: string } | null {
+      const limits: Array<{ psi: number; source: string }> = [];
+      if (params.rimType === 'HOOKLESS') limits.push({ psi: Standards.HOOKLESS_MAX_PSI, source: 'hookless rim' });
+      if (params.rimMaxPressure) limits.push({ psi: params.rimMaxPressure, source: 'rim' });
+      if (params.tireMaxPressure) limits.push({ psi: params.tireMaxPressure, source: 'tire' });
+      if (limits.length === 0) return null;
+      return limits.reduce((lowest, limit) => limit.psi < lowest.psi ? limit : lowest);
+    }
+
     private static generateRecommendations(input: TirePressureInput, frontPSI: number, rearPSI: number ): string[] {
         const recommendations: string[] = [];
         recommendations.push('Start with these pressures and adjust by 1-2 PSI based on feel. Your personal preference is key.');
@@ -361,9 +404,24 @@ export interface TirePressureInput {
         if (!input.tubeless && (frontPSI < 30 || rearPSI < 30) && input.bikeType !== 'fat_bike') {
             warnings.push('Running tubes at this low pressure significantly increases the risk of "pinch flat" punctures. Be cautious on sharp impacts.');
         }
-        const rimToTireRatio = input.rimInternalWidth / input.tireWidth;
-        if (rimToTireRatio > 0.7) {
-            warnings.push(`Your tires may be narrow for your rims. Verify manufacturer compatibility to ensure bead safety.`);
+        if (input.rimType) {
+            // A known rim is checked against the ETRTO table rather than the rough ratio
+            const range = Standards.getRimTireRange(input.rimInternalWidth, input.rimType);
+            const hookless = input.rimType === 'HOOKLESS';
+            const rim = `${input.rimInternalWidth}mm ${hookless ? 'hookless' : 'hooked'}`;
+            if (!range) {
+                warnings.push(`${rim} rims have no ETRTO tire rating. Do not mount a tire without the rim maker's approval.`);
+            } else if (input.tireWidth < range[0] || input.tireWidth > range[1]) {
+                warnings.push(`ETRTO recommends ${range[0]}-${range[1]}mm tires on a ${rim} rim.${hookless ? ' An out-of-range tire can blow off a hookless rim.' : ''}`);
+            }
+            if (hookless && input.rimWidthEstimated) {
+                warnings.push(`Tire fit was checked against an estimated ${input.rimInternalWidth}mm rim. Enter the rim's internal width to confirm it on a hookless rim.`);
+            }
+        } else {
+            const rimToTireRatio = input.rimInternalWidth / input.tireWidth;
+            if (rimToTireRatio > 0.7) {
+                warnings.push(`Your tires may be narrow for your rims. Verify manufacturer compatibility to ensure bead safety.`);
+            }
         }
         return warnings;
     }
@@ -0,0 +1,37 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ComponentCatalog } from '@/lib/component-catalog'
+import { CatalogQuery } from '@/types/catalog'
+import { Component } from '@/types/gear-calculator'
+
+interface ComponentCatalogState {
+  components: Component[]
+  source: 'catalog' | 'sample'
+  loading: boolean
+}
+
+// Loads the catalog from the API; the bundled samples stand in until it answers, or if it can't.
+// Callers pass a stable fallback (a module constant), so only a changed query refetches.
+export function useComponentCatalog(fallback: Component[], query: Partial<CatalogQuery> = {}): ComponentCatalogState {
+  const [state, setState] = useState<ComponentCatalogState>({ components: fallback, source: 'sample', loading: true })
+  const queryKey = ComponentCatalog.toSearchParams(query).toString()
+
+  useEffect(() => {
+    let cancelled = false
+    // Rebuilt from the key so a new query object with the same filters doesn't refetch
+    ComponentCatalog.fetchAll(ComponentCatalog.parseQuery(new URLSearchParams(queryKey)))
+      .then(components => {
+        if (cancelled) return
+        setState(components.length > 0
+          ? { components, source: 'catalog', loading: false }
+          : { components: fallback, source: 'sample', loading: false })
+      })
+      .catch(() => {
+        if (!cancelled) setState({ components: fallback, source: 'sample', loading: false })
+      })
+    return () => { cancelled = true }
+  }, [queryKey, fallback])
+
+  return state
+}
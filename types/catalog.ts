@@ -0,0 +1,34 @@
+// types/catalog.ts
+// Query and response shapes for the component catalog API.
+
+import { Component, ComponentCategory, FreehubType } from '@/types/gear-calculator'
+import { CompatibilityRecord } from '@/types/compatibility'
+
+export interface CatalogQuery {
+  category?: ComponentCategory;
+  manufacturer?: string;
+  search?: string; // manufacturer or model contains, case-insensitive
+  speeds?: number; // cassettes, chains and derailleurs
+  freehubType?: FreehubType; // cassettes that need it and hubs that take it
+  minCog?: number; // cassettes reaching down to this cog or smaller
+  maxCog?: number; // cassettes reaching up to this cog or larger
+  minWeight?: number; // grams
+  maxWeight?: number;
+  minPrice?: number; // MSRP
+  maxPrice?: number;
+  page: number; // 1-based
+  pageSize: number;
+}
+
+export interface CatalogPage {
+  components: Component[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface CatalogEntry {
+  component: Component;
+  compatibility: CompatibilityRecord[]; // stored pairings with this part on either side
+}
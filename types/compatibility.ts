@@ -0,0 +1,75 @@
+// types/compatibility.ts
+// Shapes shared by the compatibility engine and its rules.
+
+import { BikeSetup, ChainlineResult, CompatibilityIssue, CompatibilitySolution, CompatibilityStatus, Component, ComponentCategory } from '@/types/gear-calculator'
+
+export interface CompatibilityContext {
+  setup: BikeSetup;
+  current?: BikeSetup; // setup being replaced, when comparing two builds
+  chainline?: ChainlineResult;
+  catalog?: Component[]; // parts the engine may suggest as fixes
+  clearanceMargin?: number; // mm wanted each side of the tire, see Standards.TIRE_CLEARANCE_MARGINS
+  records?: CompatibilityRecord[]; // known pairings, as stored in the CompatibilityRule table
+}
+
+// A stored pairing between two parts, mirroring the CompatibilityRule model in prisma/schema.prisma
+export interface CompatibilityRecord {
+  id: string;
+  componentFromId: string;
+  componentToId: string;
+  compatible: boolean;
+  warnings: string[];
+  requiredParts: string[];
+  verified: boolean;
+}
+
+export interface RuleResult {
+  issues: CompatibilityIssue[];
+  solutions: CompatibilitySolution[];
+}
+
+export interface CompatibilityRule {
+  id: string;
+  description: string;
+  categories: ComponentCategory[];
+  match?: 'all' | 'any'; // run when every listed category is present (default) or any of them
+  suggests?: ComponentCategory[]; // catalog categories solve() draws its fixes from
+  check: (context: CompatibilityContext) => RuleResult;
+  // Concrete fixes from the catalog for one of this rule's issues
+  solve?: (issue: CompatibilityIssue, context: CompatibilityContext & { catalog: Component[] }) => CompatibilitySolution[];
+}
+
+export type BuildPosition = 'FRONT' | 'REAR';
+
+// A part in a whole-bike build; wheels, hubs, tires and brakes may be placed at one end
+export interface BuildPart {
+  component: Component;
+  position?: BuildPosition;
+}
+
+export interface ConflictNode {
+  id: string;
+  name: string;
+  category: ComponentCategory;
+  positions: BuildPosition[];
+  severity?: CompatibilityIssue['severity']; // worst issue the part is involved in
+}
+
+export interface ConflictEdge {
+  from: string;
+  to: string;
+  severity: CompatibilityIssue['severity'];
+  rules: string[];
+  messages: string[];
+}
+
+export interface ConflictGraph {
+  nodes: ConflictNode[];
+  edges: ConflictEdge[];
+}
+
+export interface BuildValidation {
+  status: CompatibilityStatus; // the whole bike
+  ends: Record<BuildPosition, CompatibilityStatus>; // front: fork and cockpit; rear: frame and drivetrain
+  graph: ConflictGraph;
+}
@@ -3,7 +3,14 @@
 export interface GearRatio {
   chainring: number;
   cog: number;
+  chainringIndex: number; // 0 = smallest chainring
+  cogIndex: number; // 0 = smallest cog
   ratio: number;
+  gearInches: number;
+  development: number; // metres per crank revolution
+  gainRatio: number; // Sheldon Brown gain ratio
+  internalGear?: number; // 1-based gear number on internal gear hubs/gearboxes
+  internalRatio?: number; // hub/gearbox ratio applied on top of chainring/sprocket
 }
 
 export interface GearComparison {
@@ -22,6 +29,18 @@ export interface BikeSetup {
   tire?: Component;
   derailleur?: Component;
   hub?: Component;
+  internalGear?: Component; // internal gear hub or gearbox, replaces cassette + derailleur
+  sprocket?: Component; // single rear sprocket for internal gear hubs and gearboxes
+  frame?: Component;
+  shifter?: Component;
+  fork?: Component;
+  brake?: Component;
+  rotor?: Component;
+  brakeAdapter?: Component;
+  brakePad?: Component;
+  bottomBracket?: Component;
+  handlebar?: Component;
+  stem?: Component;
 }
 
 // MODIFIED: Added chainLength and chainline for integrated results
@@ -32,14 +51,73 @@ export interface ComparisonResults {
   cost: CostAnalysis;
   chainLength?: ChainLengthResult; // Integrated result
   chainline?: ChainlineResult;   // Integrated result
+  bottomBracket?: BottomBracketResult;
 }
 
 export interface PerformanceMetrics {
   topSpeed: SpeedMetric;
   climbingGear: GearMetric;
   gearRange: RangeMetric;
-  gearRatios: GearRatio[];
+  wheelCircumference: GearMetric; // rolling circumference in mm
+  lowestGear: GearExtremeMetric;
+  highestGear: GearExtremeMetric;
+  gearRatios: GearRatio[]; // proposed setup, every chainring x cog
+  currentGearRatios: GearRatio[];
   efficiency: EfficiencyMetrics;
+  shiftSteps: ShiftStepMetric;
+  physics: PhysicsMetrics;
+}
+
+export interface PhysicsMetrics {
+  current: PhysicsResult;
+  proposed: PhysicsResult;
+}
+
+export interface PhysicsResult {
+  speedAtPower: number; // mph at riderPower on params.gradient
+  topGearCadence: number; // rpm needed in the hardest gear to hold speedAtPower
+  maxGradient: number; // % grade climbable in the lowest gear at targetCadence
+  targetCadence: number;
+  cadenceByGradient: Array<{ gradient: number; speed: number; cadence: number }>; // lowest gear
+}
+
+export interface ShiftStepMetric {
+  current: ShiftAnalysis;
+  proposed: ShiftAnalysis;
+  smoother: 'current' | 'proposed' | 'equal'; // lower average step inside the cruising band
+}
+
+export interface ShiftAnalysisOptions {
+  duplicateThreshold?: number; // % difference below which two gears count as duplicates
+  gapThreshold?: number; // % step above which a shift counts as a big gap
+  cadence?: number;
+  speedBand?: { min: number; max: number }; // mph at the given cadence
+}
+
+export interface ShiftStep {
+  from: GearRatio;
+  to: GearRatio;
+  stepPercent: number;
+  shift: 'rear' | 'front';
+  rearCompensation: number; // cogs the rear moves during a front shift (+ = larger cog)
+}
+
+export interface GearOverlap {
+  lower: GearRatio;
+  higher: GearRatio;
+  differencePercent: number;
+}
+
+export interface ShiftAnalysis {
+  sequence: GearRatio[]; // easiest to hardest, as an optimal shifter would use them
+  steps: ShiftStep[];
+  averageStep: number; // %
+  maxStep: number; // %
+  bandAverageStep: number; // % within the speed band
+  bandMaxStep: number; // % within the speed band
+  duplicates: GearOverlap[];
+  gaps: ShiftStep[];
+  uniqueGears: number;
 }
 
 export interface SpeedMetric {
@@ -57,6 +135,12 @@ export interface GearMetric {
   difference: number;
 }
 
+// Full detail of the easiest or hardest gear on each setup
+export interface GearExtremeMetric {
+  current?: GearRatio;
+  proposed?: GearRatio;
+}
+
 export interface RangeMetric {
   current: number;
   proposed: number;
@@ -66,23 +150,44 @@ export interface RangeMetric {
 
 export interface EfficiencyMetrics {
   crossChaining: CrossChainingAnalysis;
-  optimalGears: number[];
-  efficiencyLoss: number; // percentage
+  optimalGears: number[]; // proposed ratios with a near-straight chain
+  efficiencyLoss: number; // percentage, averaged across every proposed gear
 }
 
 export interface CrossChainingAnalysis {
   current: CrossChainingIssue[];
   proposed: CrossChainingIssue[];
-  improvement: number; // percentage
+  improvement: number; // percentage reduction in average cross-chaining loss
 }
 
 export interface CrossChainingIssue {
   gear: string; // e.g., "32T x 10T"
   severity: 'low' | 'medium' | 'high';
+  deflectionAngle: number; // degrees
   efficiencyLoss: number; // percentage
   recommendation: string;
 }
 
+export interface GearingTargets {
+  lowestRatio?: number; // easiest gear must be this ratio or lower
+  topSpeed?: number; // mph at cadence in the hardest gear
+  cadence?: number;
+  freehubType?: FreehubType; // body on the hub; cassettes that cross-fit it are included
+  derailleur?: Component;
+  ranking?: { weight?: number; cost?: number; smoothness?: number };
+  maxResults?: number;
+}
+
+export interface GearingCandidate {
+  setup: BikeSetup;
+  lowestRatio: number;
+  topSpeed: number; // mph
+  weight: number; // g, cassette + chainring/crankset
+  cost: number; // USD, cassette + chainring/crankset
+  averageStep: number; // % between shifts
+  score: number; // 0-100, higher is better
+}
+
 export interface WeightComparison {
   current: number;
   proposed: number;
@@ -97,15 +202,38 @@ export interface CompatibilityStatus {
   issues: CompatibilityIssue[];
   solutions: CompatibilitySolution[];
   confidence: number; // 0-100
+  confidenceBreakdown?: ConfidenceDeduction[]; // what took confidence below 100
+  contradictions?: CompatibilityContradiction[]; // stored pairings that disagree with the rules
   isCompatible: boolean;
   overallStatus: 'compatible' | 'warning' | 'incompatible';
 }
 
+// A stored pairing and the computed rules reached different verdicts; verified records win
+export interface CompatibilityContradiction {
+  recordId: string;
+  componentIds: string[];
+  recorded: 'compatible' | 'incompatible';
+  computed: 'compatible' | 'incompatible';
+  verified: boolean;
+  resolvedBy: 'record' | 'rules';
+  rules: string[]; // rules whose verdict the record disagrees with
+  message: string;
+}
+
+export interface ConfidenceDeduction {
+  source: 'issue' | 'record' | 'data';
+  reason: string;
+  points: number;
+  componentIds?: string[];
+}
+
 export interface CompatibilityIssue {
-  type: 'freehub' | 'chain' | 'capacity' | 'chainline' | 'clearance' | 'bcd' | 'other';
+  type: 'freehub' | 'chain' | 'capacity' | 'cog' | 'speed' | 'actuation' | 'brake' | 'bottom-bracket' | 'cockpit' | 'tire-clearance' | 'axle' | 'rim' | 'chainline' | 'clearance' | 'bcd' | 'sprocket' | 'dropout' | 'other';
   severity: 'low' | 'medium' | 'high' | 'critical';
   message: string;
   components: string[];
+  componentIds?: string[];
+  rule?: string; // id of the rule that raised it
   costToFix?: number;
   estimatedCost: number;
 }
@@ -117,6 +245,8 @@ export interface CompatibilitySolution {
   effort: 'easy' | 'medium' | 'hard';
   reliability: number; // 0-100
   components: string[];
+  componentIds?: string[]; // catalog parts to buy
+  rule?: string; // id of the rule whose issue this fixes
   message: string;
   difficulty: 'easy' | 'medium' | 'hard';
 }
@@ -144,6 +274,7 @@ export interface Component {
   year?: number;
   weightGrams?: number;
   msrp?: number;
+  verifiedWeight?: boolean;
   category: ComponentCategory;
   imageUrl?: string;
   
@@ -155,6 +286,19 @@ export interface Component {
   derailleur?: DerailleurData;
   hub?: HubData;
   crankset?: CranksetData;
+  internalGear?: InternalGearData;
+  sprocket?: SprocketData;
+  frame?: FrameData;
+  freehubBody?: FreehubBodyData;
+  shifter?: ShifterData;
+  fork?: ForkData;
+  brake?: BrakeData;
+  rotor?: RotorData;
+  brakeAdapter?: BrakeAdapterData;
+  brakePad?: BrakePadData;
+  bottomBracket?: BottomBracketData;
+  handlebar?: HandlebarData;
+  stem?: StemData;
 }
 
 export type ComponentCategory = 
@@ -172,7 +316,16 @@ export type ComponentCategory =
   | 'BRAKE'
   | 'FORK'
   | 'SHOCK'
-  | 'FRAME';
+  | 'FRAME'
+  | 'INTERNAL_GEAR_HUB'
+  | 'GEARBOX'
+  | 'SPROCKET'
+  | 'FREEHUB_BODY'
+  | 'ROTOR'
+  | 'BRAKE_ADAPTER'
+  | 'BRAKE_PAD'
+  | 'HANDLEBAR'
+  | 'STEM';
 
 export interface CassetteData {
   speeds: number;
@@ -189,50 +342,302 @@ export interface ChainringData {
 export interface CranksetData {
   chainrings: number[];
   bcd?: number;
-  spindleType?: string;
+  spindleType?: SpindleStandard;
+  spindleLength?: number; // mm, the effective shell width the spindle is made for (68 road, 73 MTB)
+  qFactor?: number; // mm
   offset?: number;
+  chainline?: number; // mm from frame centre to the middle of the ring set
+  crankLength?: number; // mm
 }
 
 export interface ChainData {
   speeds: number;
+  material?: string;
   links?: number;
 }
 
 export interface WheelData {
-  diameter: number;
-  width?: number;
+  diameter: number; // nominal inches (26, 27.5, 29)
+  hub?: HubData; // hub the wheel is built on
+  bsd?: number; // ETRTO bead seat diameter, mm
+  width?: number; // mm, internal rim width
+  rimType?: RimType;
+  etrto?: string; // e.g. '622x25'
+  maxPressure?: number; // psi
+  material?: string;
+  spokeCount?: number;
 }
 
 export interface TireData {
-  width: number;
-  diameter: number;
+  width: number; // inches for MTB sizes (2.4), mm for road/gravel (28)
+  diameter: number; // nominal inches
+  compound?: string;
+  casing?: string;
+  tpi?: number;
+  etrto?: string; // e.g. '40-622'
+  hooklessApproved?: boolean; // on the tire maker's hookless list
+  maxPressure?: number; // psi
 }
 
+export type RimType = 'HOOKED' | 'HOOKLESS';
+
 export interface DerailleurData {
   speeds: number;
+  actuation?: ActuationFamily;
+  cageLength?: 'SHORT' | 'MEDIUM' | 'LONG' | 'ONE_SIZE';
   maxCog?: number;
-  capacity?: number;
+  minCog?: number;
+  capacity?: number; // total teeth: (big ring - small ring) + (big cog - small cog)
+}
+
+export interface ShifterData {
+  speeds: number;
+  actuation: ActuationFamily;
+}
+
+// Cable pull ratio families for mechanical groups, signal protocol for electronic ones
+export type ActuationFamily =
+  | 'SHIMANO_ROAD' // 8-10s road and 7-9s MTB, 1.7:1
+  | 'SHIMANO_ROAD_11' // 11s road and 4700 10s road, 1.4:1
+  | 'SHIMANO_DYNASYS' // 10s and 11s MTB Dyna-Sys, 1.2:1
+  | 'SHIMANO_MTB_12' // 12s Hyperglide+/Linkglide MTB
+  | 'SRAM_EXACT_ACTUATION' // SRAM MTB 1:1
+  | 'SRAM_ROAD' // SRAM mechanical road 10/11s
+  | 'CAMPAGNOLO'
+  | 'SRAM_AXS'
+  | 'SHIMANO_DI2'
+  | 'CAMPAGNOLO_EPS';
+
+export interface ActuationPairing {
+  shifter: ActuationFamily;
+  derailleur: ActuationFamily;
+  speeds?: number; // pairing only holds at this speed count
+  note: string;
+}
+
+export interface ActuationAdapter {
+  shifter: ActuationFamily;
+  derailleur: ActuationFamily;
+  name: string;
+  cost: number;
+}
+
+export interface InternalGearData {
+  type: 'HUB' | 'GEARBOX';
+  ratios: number[]; // wheel (or output) turns per sprocket turn, 1.0 = direct drive
+  continuous?: boolean; // stepless hub (Enviolo): ratios are the ends of the range
+  sprocketRange?: { min: number; max: number };
+  chainringRange?: { min: number; max: number };
+  minDriveRatio?: number; // minimum chainring/sprocket ratio allowed by the manufacturer
+  dropoutTypes: DropoutType[]; // frame dropouts it can be fitted to without a tensioner
+}
+
+export interface SprocketData {
+  teeth: number;
+}
+
+export interface FrameData {
+  dropoutType?: DropoutType;
+  bbShell?: BBShellStandard;
+  rearSpacing?: number; // mm, when the full dropout standard is not known
+  axleType?: AxleType; // rear dropout standard
+  brakeMount?: BrakeMountSpec;
+  tireClearance?: TireClearance[];
+}
+
+export interface ForkData {
+  axleType?: AxleType;
+  steererDiameter?: number; // mm at the stem clamp, 28.6 for 1-1/8"
+  brakeMount?: BrakeMountSpec;
+  tireClearance?: TireClearance[];
+}
+
+export type ClearancePoint = 'CHAINSTAY' | 'YOKE' | 'SEATSTAY' | 'SEAT_TUBE' | 'CROWN' | 'ARCH';
+
+// Clearance for one wheel size: the manufacturer's rated tire and the free width at each pinch point
+export interface TireClearance {
+  wheelSize: number; // nominal inches, matched on bead seat diameter (29 = 700c)
+  maxTireWidth: number; // mm
+  points?: Partial<Record<ClearancePoint, number>>; // mm of free width between the stays, blades or arch
+}
+
+export type BrakeMount = 'FLAT_MOUNT' | 'POST_MOUNT' | 'IS';
+
+// Brake tab on a frame or fork
+export interface BrakeMountSpec {
+  type: BrakeMount;
+  nativeRotor: number; // mm, rotor size the tabs take without an adapter
+  maxRotor: number; // mm, largest rotor the manufacturer approves
+}
+
+export type RotorMount = 'SIX_BOLT' | 'CENTER_LOCK';
+export type PadCompound = 'RESIN' | 'METALLIC';
+
+// Caliper
+export interface BrakeData {
+  mount: Exclude<BrakeMount, 'IS'>; // IS tabs always take a post mount caliper on an adapter
+  position?: 'FRONT' | 'REAR'; // fork or frame; front when not given
+  padShape: string; // e.g. 'SHIMANO_D03S', 'SRAM_LEVEL'
+}
+
+export interface RotorData {
+  diameter: number; // mm
+  mount: RotorMount;
+  resinOnly?: boolean; // e.g. Shimano Ice-Tech rotors
+}
+
+// Moves the caliper out from the native rotor size, or between mount standards
+export interface BrakeAdapterData {
+  frameMount: BrakeMount;
+  caliperMount: Exclude<BrakeMount, 'IS'>;
+  fromRotor: number; // mm
+  toRotor: number; // mm
+}
+
+export interface BrakePadData {
+  shape: string;
+  compound: PadCompound;
+}
+
+export interface HandlebarData {
+  clampDiameter: number; // mm, e.g. 31.8 or 35
+  width?: number; // mm
+}
+
+export interface StemData {
+  barClamp: number; // mm
+  steererClamp: number; // mm
+  length?: number; // mm
+}
+
+export type BBShellStandard =
+  | 'BSA_68'
+  | 'BSA_73'
+  | 'BSA_83'
+  | 'ITALIAN_70'
+  | 'BB86'
+  | 'BB92'
+  | 'BB30_68'
+  | 'BB30_73'
+  | 'PF30_68'
+  | 'PF30_73'
+  | 'BB386EVO'
+  | 'T47_68'
+  | 'T47_86';
+
+export type SpindleStandard = 'HOLLOWTECH_II' | 'GXP' | 'DUB' | 'SPINDLE_30';
+
+export interface BBShellSpec {
+  width: number; // mm
+  label: string;
+  chainline: { single: number; double: number };
+  bore: number; // mm
+  threaded: boolean;
+  spindleSpan: number; // mm, effective width a crank spindle has to bridge
+  conversionSpan?: number; // span when a narrower spindle runs on a conversion BB, if different
+}
+
+export interface BottomBracketData {
+  shell: BBShellStandard;
+  spindle: SpindleStandard;
+}
+
+// How a crank spindle goes into a shell, or why it cannot
+export interface BottomBracketFit {
+  fits: boolean;
+  bottomBracket: string; // BB the pairing needs
+  conversion: boolean; // narrower spindle on a big-bore shell
+  spacers: number; // mm of spacers taking up spindle length
+  reason?: string;
+}
+
+export interface BottomBracketResult extends BottomBracketFit {
+  qFactor?: number;
+  qFactorChange?: number; // against the current setup
+  chainline: number;
+  chainlineChange?: number;
+}
+
+export type DropoutType =
+  | 'VERTICAL'
+  | 'HORIZONTAL'
+  | 'SLIDING'
+  | 'ECCENTRIC_BB'
+  | 'GEARBOX_MOUNT';
+
+export interface FreehubBodyData {
+  type: FreehubType;
+  hubManufacturer: string;
+  hubModels: string[]; // hub models the body fits
 }
 
 export interface HubData {
-  freehubTypes: FreehubType[];
+  freehubTypes: FreehubType[]; // bodies fitted or supplied with the hub
+  swappableFreehubs?: Array<{ type: FreehubType; cost: number }>; // bodies available as a swap
+  frontSpacing?: number; // mm
+  rearSpacing?: number; // mm
+  axleType?: AxleType; // as fitted
+  endCapConversions?: Array<{ type: AxleType; cost: number }>; // end cap kits the hub maker offers
+  rotorMount?: RotorMount;
 }
 
 export type FreehubType = 
   | 'SHIMANO_HG'
+  | 'SHIMANO_HG_L'
+  | 'SHIMANO_HG_L2'
   | 'SRAM_XD'
-  | 'MICRO_SPLINE';
+  | 'SRAM_XDR'
+  | 'CAMPAGNOLO'
+  | 'CAMPAGNOLO_N3W'
+  | 'N3W'
+  | 'MICRO_SPLINE'
+  | 'DTSWISS_350'
+  | 'DTSWISS_240'
+  | 'ROTOR_HG';
+
+// How a cassette sits on a freehub body it was not designed for
+export interface FreehubFit {
+  body: FreehubType;
+  cassette: FreehubType;
+  spacer?: number; // mm spacer behind the cassette
+  note?: string;
+}
 
-export type AxleType = 
-  | 'BOOST_REAR'
-  | 'SUPERBOOST_REAR';
+// Dropout / hub axle standards: spacing x thru-axle diameter, or quick release
+export type AxleType =
+  | 'QR_100'
+  | 'TA_100x12'
+  | 'TA_100x15'
+  | 'TA_110x15_BOOST'
+  | 'TA_110x20'
+  | 'QR_130'
+  | 'QR_135'
+  | 'TA_135x12'
+  | 'TA_142x12'
+  | 'TA_148x12_BOOST'
+  | 'TA_157x12_SUPERBOOST';
+
+export interface AxleSpec {
+  position: 'FRONT' | 'REAR';
+  spacing: number; // mm
+  axle: number; // thru-axle diameter, 5 for a QR skewer
+  label: string;
+}
 
 export interface CalculatorParams {
-  riderWeight?: number;
-  bikeWeight?: number;
+  riderWeight?: number; // lbs
+  bikeWeight?: number; // lbs
   cadence?: number;
-  wheelDiameter?: number;
+  riderPower?: number; // W
+  cda?: number; // m^2
+  crr?: number;
+  gradient?: number; // %
+  drivetrainEfficiency?: number; // %
+  wheelDiameter?: number; // inches, fallback when no tire is selected
+  measuredRollout?: number; // mm, overrides the tire-derived circumference
   chainstayLength?: number;
+  cruisingSpeedMin?: number; // mph, lower edge of the band used for shift-step comparison
+  cruisingSpeedMax?: number; // mph
 }
 
 export interface TirePressureResult {
@@ -243,17 +648,70 @@ export interface TirePressureResult {
   recommendations: string[];
 }
 
+export type ChainLengthMethod = 'geometric' | 'shimano' | 'sram_eagle' | 'sram_transmission' | 'approximation';
+
+export interface ChainLengthOptions {
+  method?: ChainLengthMethod;
+  smallestChainring?: number;
+  smallestCog?: number;
+  derailleurCapacity?: number; // teeth
+  cageLength?: 'short' | 'medium' | 'long';
+  sagChainstayLength?: number; // mm, chainstay measured with the suspension at sag
+}
+
+export interface SuspensionParams {
+  travel: number; // mm, rear wheel travel
+  pivot?: { x: number; y: number }; // mm from BB centre, x rearward, y up (main or virtual pivot)
+  axlePath?: Array<{ travel: number; chainstayLength: number }>; // measured curve, overrides the pivot
+  sag?: number; // % of travel
+  bbDrop?: number; // mm, rear axle height above the BB at top-out
+}
+
+export interface ChainGrowthPoint {
+  travel: number; // mm
+  chainstayLength: number; // mm
+  growth: number; // mm of chain on the tension run, relative to top-out
+  kickback: number; // degrees of crank rotation
+}
+
+export interface SuspensionChainResult {
+  curve: ChainGrowthPoint[];
+  growth: number; // mm at bottom-out
+  kickback: number; // degrees at bottom-out
+  sagChainstayLength: number; // mm
+  maxChainstayLength: number; // mm
+  minSafeLinks: number; // shortest chain that survives bottom-out in the biggest gear
+  chainLength: ChainLengthResult;
+  notes: string[];
+}
+
 export interface ChainLengthResult {
   links: number;
   length: number;
   tolerance: { min: number; max: number };
+  method: ChainLengthMethod; // which method produced the result
   notes: string[];
 }
 
 export interface ChainlineResult {
-  optimalChainline: number;
-  currentChainline: number;
+  optimalChainline: number; // rear chainline: centre of the cassette
+  currentChainline: number; // front chainline: centre of the ring set
   deviation: number;
   efficiency: number;
+  chainAngles: ChainAngle[]; // one entry per chainring/cog combination
   recommendations: string[];
+}
+
+export interface ChainAngle {
+  chainring: number;
+  cog: number;
+  frontPosition: number; // mm from frame centre
+  rearPosition: number; // mm from frame centre
+  angle: number; // degrees, positive when the cog sits outboard of the ring
+}
+
+export interface ChainlineOptions {
+  chainrings?: number[];
+  cogs?: number[];
+  speeds?: number;
 }
\ No newline at end of file